@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for a CRM REST API
+ *
+ * Accepts the records pushed by /api/crm/sync, upserting them in memory by
+ * collection and externalId, and replays the stored response for a repeated
+ * Idempotency-Key like HubSpot- and Stripe-style APIs do.
+ *
+ * Usage:
+ *   node scripts/mock-crm-server.mjs [--port 3002]
+ *
+ * Options for exercising retries and authentication:
+ *   --api-key <key>       require "Authorization: Bearer <key>"
+ *   --fail-times <n>      answer each new idempotency key with 503 n times first
+ *   --rate-limit          answer each new idempotency key with 429 once first
+ *   --delay <ms>          wait before answering each request
+ *
+ * GET /_records lists everything stored; DELETE /_records clears it.
+ */
+
+import { createServer } from 'node:http';
+
+const args = process.argv.slice(2);
+
+function option(name) {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const port = Number(option('--port') ?? 3002);
+const apiKey = option('--api-key');
+const failTimes = Number(option('--fail-times') ?? 0);
+const rateLimit = args.includes('--rate-limit');
+const delayMs = Number(option('--delay') ?? 0);
+
+// `${path}:${externalId}` -> stored record
+const records = new Map();
+// Idempotency-Key -> { status, body } of the first successful response
+const responses = new Map();
+// Idempotency-Key -> failures already returned
+const failures = new Map();
+let nextId = 1;
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+function upsert(path, { externalId, properties, associations }) {
+  const key = `${path}:${externalId}`;
+  const existing = records.get(key);
+  const now = new Date().toISOString();
+  const record = existing
+    ? { ...existing, properties, associations, updatedAt: now, version: existing.version + 1 }
+    : { id: String(nextId++), path, externalId, properties, associations, createdAt: now, updatedAt: now, version: 1 };
+  records.set(key, record);
+  return { record, created: !existing };
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+  const path = url.pathname.replace(/^\/+|\/+$/g, '');
+
+  if (path === '_records') {
+    if (req.method === 'DELETE') {
+      records.clear();
+      responses.clear();
+      failures.clear();
+      send(res, 200, { cleared: true });
+    } else {
+      send(res, 200, { records: [...records.values()] });
+    }
+    return;
+  }
+
+  if (req.method !== 'POST' || !path) {
+    send(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  if (apiKey && req.headers.authorization !== `Bearer ${apiKey}`) {
+    send(res, 401, { error: 'Invalid API key' });
+    return;
+  }
+
+  if (delayMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+
+  const idempotencyKey = req.headers['idempotency-key'];
+  if (typeof idempotencyKey === 'string' && responses.has(idempotencyKey)) {
+    const { status, body } = responses.get(idempotencyKey);
+    console.error(`POST /${path} replayed ${idempotencyKey.slice(0, 12)}`);
+    send(res, status, body, { 'Idempotent-Replayed': 'true' });
+    return;
+  }
+
+  const failed = failures.get(idempotencyKey) ?? 0;
+  if (rateLimit && failed === 0) {
+    failures.set(idempotencyKey, 1);
+    send(res, 429, { error: 'Rate limit exceeded' }, { 'Retry-After': '1' });
+    return;
+  }
+  if (failed < failTimes + (rateLimit ? 1 : 0)) {
+    failures.set(idempotencyKey, failed + 1);
+    send(res, 503, { error: 'Mock CRM temporarily unavailable' });
+    return;
+  }
+
+  let payload;
+  try {
+    payload = await readJson(req);
+  } catch {
+    send(res, 400, { error: 'Body must be valid JSON' });
+    return;
+  }
+  if (typeof payload?.externalId !== 'string' || typeof payload.properties !== 'object' || payload.properties === null) {
+    send(res, 400, { error: 'externalId and properties are required' });
+    return;
+  }
+
+  const { record, created } = upsert(path, payload);
+  const status = created ? 201 : 200;
+  const body = { id: record.id, externalId: record.externalId, version: record.version };
+  if (typeof idempotencyKey === 'string') responses.set(idempotencyKey, { status, body });
+  console.error(`POST /${path} ${created ? 'created' : 'updated'} ${record.externalId} (v${record.version})`);
+  send(res, status, body);
+});
+
+server.listen(port, () => {
+  console.error(`Mock CRM server listening on http://localhost:${port}`);
+});
@@ -0,0 +1,314 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the Gold IRA analysis MCP server
+ *
+ * Exposes the six analysis tools with deterministic, transcript-derived
+ * output so the web client can be exercised offline.
+ *
+ * Usage:
+ *   node scripts/mock-mcp-server.mjs                 # stdio transport
+ *   node scripts/mock-mcp-server.mjs --http [--port 3001]
+ *
+ * Options for exercising progress, cancellation and retries:
+ *   --delay <ms>          wait before answering each tool call
+ *   --fail-once <tool>    make the first call to <tool> return an error
+ */
+
+import { createServer } from 'node:http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { z } from 'zod';
+
+const inputSchema = {
+  transcript: z.string().min(1),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  turns: z
+    .array(z.looseObject({ speaker: z.string(), role: z.string(), text: z.string() }))
+    .optional(),
+  previousResults: z.record(z.string(), z.unknown()).optional()
+};
+
+function clamp(value) {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function countMatches(text, pattern) {
+  return (text.match(pattern) || []).length;
+}
+
+function transcriptStats(transcript) {
+  const lower = transcript.toLowerCase();
+  return {
+    words: transcript.trim().split(/\s+/).length,
+    questions: countMatches(transcript, /\?/g),
+    spouse: /\b(wife|husband|spouse)\b/.test(lower),
+    storage: /\b(storage|custod|depository)/.test(lower),
+    fees: /\bfees?\b/.test(lower),
+    followUp: /\b(follow up|call you|schedule|next week|tomorrow)\b/.test(lower)
+  };
+}
+
+function quotesMatching(transcript, pattern, limit = 2) {
+  return transcript
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => pattern.test(sentence))
+    .slice(0, limit);
+}
+
+const tools = {
+  analyze_conversation(transcript) {
+    const stats = transcriptStats(transcript);
+    const discovery = clamp(55 + stats.questions * 4);
+    const scorecard = {
+      overallQuality: 0,
+      discovery,
+      rapportBuilding: clamp(60 + Math.min(stats.words, 2000) / 100),
+      valuePresentation: clamp(stats.storage ? 72 : 60),
+      objectionHandling: clamp(stats.fees ? 70 : 64),
+      nextStepsClarity: clamp(stats.followUp ? 82 : 55)
+    };
+    const dimensions = Object.values(scorecard).slice(1);
+    scorecard.overallQuality = clamp(dimensions.reduce((sum, value) => sum + value, 0) / dimensions.length);
+
+    return {
+      conversationScorecard: scorecard,
+      keyInsights: [
+        stats.questions >= 5
+          ? 'Rep asked enough questions to uncover core retirement goals'
+          : 'Discovery was light; more open questions needed'
+      ]
+    };
+  },
+
+  analyze_psychology(transcript) {
+    const stats = transcriptStats(transcript);
+    const analytical = stats.questions > 8;
+    const emotionalDrivers = [
+      { label: 'Fear of inflation', pattern: /\binflation\b/i },
+      { label: 'Legacy for family', pattern: /\b(kids|grandkids|children|legacy)\b/i }
+    ].flatMap(({ label, pattern }) => {
+      const quotes = quotesMatching(transcript, pattern);
+      return quotes.length ? [{ label, quotes }] : [];
+    });
+    const skeptical = quotesMatching(transcript, /\b(scam|legit|trust)\b/i);
+
+    return {
+      personalityType: {
+        primary: analytical ? 'analytical' : 'amiable',
+        secondary: 'conscientious',
+        confidence: 80,
+        quotes: quotesMatching(transcript, /\?/)
+      },
+      decisionMakingStyle: stats.spouse ? 'collaborative' : 'independent',
+      decisionMakingQuotes: quotesMatching(transcript, /\b(wife|husband|spouse)\b/i),
+      emotionalDrivers,
+      trustSignals: skeptical.length ? [{ label: 'Questions credibility', effect: 'erodes', quotes: skeptical }] : [],
+      communicationStyle: {
+        recommendation: analytical ? 'Lead with data and written detail' : 'Build the relationship and move at their pace',
+        tips: analytical ? ['Send the fee schedule in writing'] : ['Involve family in the conversation']
+      },
+      keyInsights: [
+        stats.spouse
+          ? 'Family involvement crucial for decision process'
+          : 'Prospect appears to decide independently'
+      ]
+    };
+  },
+
+  analyze_objections(transcript) {
+    const lines = transcript.split(/\n+/).map(line => line.trim()).filter(Boolean);
+    const categories = [
+      { category: 'storage', pattern: /\b(storage|stored|custod\w*|depository)\b/i },
+      { category: 'fees', pattern: /\bfees?\b/i },
+      { category: 'liquidity', pattern: /\b(liquid\w*|sell it back|cash out)\b/i },
+      { category: 'advisor', pattern: /\bmy (financial )?advisor\b/i },
+      { category: 'spouse_approval', pattern: /\b(wife|husband|spouse)\b/i },
+      { category: 'scam_concern', pattern: /\b(scam|legit\w*|too good to be true)\b/i }
+    ];
+
+    // Each objection is tied to the line that raised it and the line after it
+    const objections = categories.flatMap(({ category, pattern }) => {
+      const turnIndex = lines.findIndex(line => pattern.test(line));
+      if (turnIndex < 0) return [];
+      const repResponse = lines[turnIndex + 1];
+      const resolved = !!repResponse && pattern.test(repResponse);
+      return [{
+        category,
+        resolved,
+        quote: lines[turnIndex],
+        turnIndex,
+        repResponse,
+        responseQuality: repResponse ? (resolved ? 78 : 45) : 0,
+        responseFeedback: resolved ? 'Addressed the concern directly' : 'Concern was not answered directly'
+      }];
+    });
+    return { objections };
+  },
+
+  assess_deal_risk(transcript) {
+    const stats = transcriptStats(transcript);
+    const factors = [
+      {
+        id: 'decision_maker_absent',
+        label: 'Decision-maker absent',
+        weight: 35,
+        contribution: stats.spouse ? 35 : 0,
+        evidence: quotesMatching(transcript, /\b(wife|husband|spouse)\b/i)
+      },
+      {
+        id: 'unresolved_objections',
+        label: 'Unresolved objections',
+        weight: 35,
+        contribution: stats.storage ? 35 : 0,
+        evidence: quotesMatching(transcript, /\b(storage|custod|depository)/i)
+      },
+      {
+        id: 'no_next_step',
+        label: 'No committed next step',
+        weight: 30,
+        contribution: stats.followUp ? 0 : 30,
+        evidence: stats.followUp ? [] : ['No follow-up was agreed']
+      }
+    ];
+    const riskScore = factors.reduce((sum, factor) => sum + factor.contribution, 0);
+    return {
+      riskLevel: riskScore >= 60 ? 'high' : riskScore >= 30 ? 'medium' : 'low',
+      riskScore,
+      factors
+    };
+  },
+
+  create_action_plan(transcript) {
+    const stats = transcriptStats(transcript);
+    const criticalActions = ['Send IRA rollover education materials'];
+    if (stats.spouse) criticalActions.unshift('Schedule joint call with spouse');
+    if (stats.storage) criticalActions.push('Address gold storage concerns');
+    const nextSteps = ['Follow up within 24 hours', 'Provide educational materials'];
+    const tasks = [
+      ...criticalActions.map(title => ({ title, priority: 'high', dueText: 'within 2 days' })),
+      { title: nextSteps[0], priority: 'high', dueText: 'within 24 hours' },
+      { title: nextSteps[1], priority: 'medium', dueText: 'this week' }
+    ].map((task, index) => ({ id: `task-${index + 1}`, owner: 'Sales rep', status: 'open', ...task }));
+    return { criticalActions, nextSteps, tasks };
+  },
+
+  qualify_prospect(transcript, previousResults = {}) {
+    const stats = transcriptStats(transcript);
+    const accountQuotes = quotesMatching(transcript, /\b(401\s?\(?k\)?|403\s?\(?b\)?|tsp|(traditional |roth )?ira)(?!\w)/i);
+    const amountQuotes = quotesMatching(transcript, /\$\s?\d|\b\d+\s?(k|thousand)\b/i, 1);
+    const factors = [
+      { id: 'account_types', label: 'Eligible account types', weight: 15, fulfillment: accountQuotes.length ? 1 : 0, detail: accountQuotes.length ? 'Mentions a rollover-eligible account' : 'Account types not captured', evidence: accountQuotes },
+      { id: 'rollover_amount', label: 'Rollover amount', weight: 25, fulfillment: amountQuotes.length ? 1 : 0, detail: amountQuotes.length ? 'Amount mentioned on the call' : 'Rollover amount not captured', evidence: amountQuotes },
+      { id: 'age_rmd', label: 'Age / RMD considerations', weight: 15, fulfillment: 0, detail: 'Age not captured; RMD timing unknown' },
+      { id: 'decision_authority', label: 'Decision authority', weight: 15, fulfillment: stats.spouse ? 0.5 : 1, detail: stats.spouse ? 'Spouse is part of the decision' : 'No one else was named in the decision' },
+      { id: 'timeframe', label: 'Timeframe', weight: 15, fulfillment: stats.followUp ? 0.5 : 0, detail: stats.followUp ? 'Follow-up agreed, no firm timeline' : 'Timeframe not discussed' },
+      { id: 'motivation', label: 'Motivation', weight: 15, fulfillment: Math.min(1, stats.questions / 5), detail: `Prospect engagement from ${stats.questions} questions` }
+    ].map(factor => ({
+      ...factor,
+      status: factor.fulfillment >= 0.75 ? 'met' : factor.fulfillment >= 0.35 ? 'partial' : factor.detail.includes('not captured') ? 'unknown' : 'unmet',
+      contribution: Math.round(factor.weight * factor.fulfillment)
+    }));
+    // Qualification runs last and weighs the deal risk found earlier
+    const riskAdjustment = { low: 0, medium: 8, high: 16 }[previousResults.dealRisk?.riskLevel] ?? 8;
+    const opportunityScore = clamp(factors.reduce((sum, factor) => sum + factor.contribution, 0) - riskAdjustment);
+    return {
+      qualificationSummary: {
+        opportunityScore,
+        investmentReadiness: opportunityScore >= 75 ? 'high' : opportunityScore >= 55 ? 'medium' : 'low',
+        recommendation: opportunityScore >= 75 ? 'proceed' : opportunityScore >= 55 ? 'proceed_cautiously' : 'nurture'
+      },
+      factors,
+      riskAdjustment
+    };
+  }
+};
+
+const args = process.argv.slice(2);
+
+function option(name) {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const delayMs = Number(option('--delay') ?? 0);
+const failOnce = new Set(option('--fail-once') ? [option('--fail-once')] : []);
+
+function createMockServer() {
+  const server = new McpServer({ name: 'gold-ira-analysis-mock', version: '0.1.0' });
+
+  for (const [name, analyze] of Object.entries(tools)) {
+    server.registerTool(
+      name,
+      { description: `Mock ${name.replace(/_/g, ' ')} for local development`, inputSchema },
+      async ({ transcript, previousResults }) => {
+        if (delayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+        if (failOnce.delete(name)) {
+          return { isError: true, content: [{ type: 'text', text: `Mock ${name} failure` }] };
+        }
+        return {
+          content: [{ type: 'text', text: JSON.stringify(analyze(transcript, previousResults)) }]
+        };
+      }
+    );
+  }
+
+  return server;
+}
+
+async function startStdio() {
+  await createMockServer().connect(new StdioServerTransport());
+}
+
+function startHttp(port) {
+  const httpServer = createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (!req.url?.startsWith('/mcp')) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    // Stateless mode: a fresh server and transport per request
+    const server = createMockServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error('Mock MCP request failed:', error);
+      if (!res.headersSent) {
+        res.writeHead(500).end();
+      }
+    }
+  });
+
+  httpServer.listen(port, () => {
+    console.error(`Mock MCP server listening on http://localhost:${port}/mcp`);
+  });
+}
+
+if (args.includes('--http')) {
+  startHttp(Number(option('--port') ?? 3001));
+} else {
+  startStdio().catch(error => {
+    console.error('Mock MCP server failed to start:', error);
+    process.exit(1);
+  });
+}
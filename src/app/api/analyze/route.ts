@@ -0,0 +1,128 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { runAnalysisWithEngine } from '@/lib/analysis/engine';
+import type { PipelineEvent, PipelineOptions } from '@/lib/analysis/pipeline';
+import { validateAnalyzeRequest, type AnalyzeRequest } from '@/lib/analysis/request';
+import { formatSseEvent } from '@/lib/analysis/sse';
+import { McpBackendNotAllowedError, resolveMcpConfig } from '@/lib/mcp/node';
+import { createClientRateLimit } from '@/lib/rate-limit';
+import { ANALYSIS_RATE_LIMIT } from '@/lib/security';
+
+export const runtime = 'nodejs';
+
+// Per-client analysis limit, matching the browser's default analysisRateLimiter.
+// The server limit stays fixed; settings can only make the browser stricter.
+const rateLimit = createClientRateLimit(ANALYSIS_RATE_LIMIT);
+
+const BACKEND_UNAVAILABLE = 'Analysis backend is unavailable. Please try again.';
+
+async function runAnalysis(
+  analyzeRequest: AnalyzeRequest,
+  options: Pick<PipelineOptions, 'onEvent' | 'signal'> = {}
+) {
+  const result = await runAnalysisWithEngine(analyzeRequest, options);
+  console.info('Analysis completed:', {
+    analysisId: result.analysisId,
+    engine: result.engine,
+    transcriptLength: analyzeRequest.transcript.length,
+    stages: analyzeRequest.stages ?? 'all',
+    processingTime: result.processingTime,
+    failedSections: Object.keys(result.sectionErrors)
+  });
+  return result;
+}
+
+/**
+ * Stream per-stage pipeline progress as server-sent events. The pipeline is
+ * aborted when the client cancels the request or disconnects.
+ */
+function streamAnalysis(analyzeRequest: AnalyzeRequest, requestSignal: AbortSignal): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  const abort = () => abortController.abort();
+  requestSignal.addEventListener('abort', abort);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: PipelineEvent) => {
+        if (!abortController.signal.aborted) {
+          controller.enqueue(encoder.encode(formatSseEvent(event)));
+        }
+      };
+
+      try {
+        await runAnalysis(analyzeRequest, { onEvent: send, signal: abortController.signal });
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.info('Analysis cancelled by client');
+        } else {
+          console.error('Analysis backend failed:', error);
+          send({ type: 'error', error: BACKEND_UNAVAILABLE });
+        }
+      } finally {
+        requestSignal.removeEventListener('abort', abort);
+        try {
+          controller.close();
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      }
+    },
+    cancel: abort
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const rate = rateLimit.check(request.headers);
+  if (!rate.allowed) {
+    return NextResponse.json(
+      { error: 'Too many analysis requests. Please wait before trying again.' },
+      { status: 429, headers: { 'Retry-After': String(rate.retryAfter) } }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+
+  const validation = validateAnalyzeRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  // Reject a disallowed backend up front rather than as a generic stream error
+  if (validation.request.backend && validation.request.engine !== 'heuristic') {
+    try {
+      resolveMcpConfig(validation.request.backend);
+    } catch (error) {
+      if (error instanceof McpBackendNotAllowedError) {
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      throw error;
+    }
+  }
+
+  if (request.headers.get('accept')?.includes('text/event-stream')) {
+    return streamAnalysis(validation.request, request.signal);
+  }
+
+  try {
+    return NextResponse.json(await runAnalysis(validation.request, { signal: request.signal }));
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
+    console.error('Analysis backend failed:', error);
+    return NextResponse.json({ error: BACKEND_UNAVAILABLE }, { status: 502 });
+  }
+}
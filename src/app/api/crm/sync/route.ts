@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { CrmNotConfiguredError, getCrmConfig, pushCrmObjects, syncStatus, type CrmConfig } from '@/lib/crm/client';
+import { validateCrmSyncRequest } from '@/lib/crm/request';
+import type { CrmSyncResponse } from '@/lib/crm/types';
+import { createClientRateLimit } from '@/lib/rate-limit';
+import { API_RATE_LIMIT } from '@/lib/security';
+
+export const runtime = 'nodejs';
+
+// Per-client limit matching the browser's default apiRateLimiter; every request
+// uses the server's CRM credentials
+const rateLimit = createClientRateLimit(API_RATE_LIMIT);
+// Retries stop once a push has run this long, and the remaining objects fail unsent
+const SYNC_TIME_BUDGET_MS = 60_000;
+
+export async function POST(request: NextRequest) {
+  const rate = rateLimit.check(request.headers);
+  if (!rate.allowed) {
+    return NextResponse.json(
+      { error: 'Too many CRM sync requests. Please wait before trying again.' },
+      { status: 429, headers: { 'Retry-After': String(rate.retryAfter) } }
+    );
+  }
+
+  let config: CrmConfig;
+  try {
+    config = getCrmConfig();
+  } catch (error) {
+    if (error instanceof CrmNotConfiguredError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    throw error;
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+
+  const validation = validateCrmSyncRequest(body);
+  if (!validation.valid) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  const { analysisId, objects } = validation.request;
+  try {
+    const results = await pushCrmObjects(analysisId, objects, config, {
+      signal: request.signal,
+      totalTimeoutMs: SYNC_TIME_BUDGET_MS
+    });
+    const response: CrmSyncResponse = { analysisId, status: syncStatus(results), results };
+    console.info('CRM sync completed:', {
+      analysisId,
+      status: response.status,
+      objects: results.map(({ type, status, attempts }) => `${type}:${status}:${attempts}`)
+    });
+    return NextResponse.json(response);
+  } catch (error) {
+    if (request.signal.aborted) {
+      return new Response(null, { status: 499 });
+    }
+    console.error('CRM sync failed:', error);
+    return NextResponse.json({ error: 'CRM sync failed. Please try again.' }, { status: 502 });
+  }
+}
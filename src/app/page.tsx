@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,6 +10,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { FileUpload } from '@/components/ui/file-upload';
+import { ActionPlanView } from '@/components/analysis/action-plan-view';
+import { CrmSyncPanel } from '@/components/analysis/crm-sync-panel';
+import { ConversationTimeline } from '@/components/analysis/conversation-timeline';
+import { DealRiskView } from '@/components/analysis/deal-risk-view';
+import { ObjectionsView } from '@/components/analysis/objections-view';
+import { PipelineProgress } from '@/components/analysis/pipeline-progress';
+import { PsychologyView } from '@/components/analysis/psychology-view';
+import { QualificationModelEditor } from '@/components/analysis/qualification-model-editor';
+import { QualificationView } from '@/components/analysis/qualification-view';
+import { ReportExport, type ReportFormat } from '@/components/analysis/report-export';
+import { SectionError } from '@/components/analysis/section-error';
+import { BatchAnalysis } from '@/components/batch/batch-analysis';
+import { RepDashboard } from '@/components/dashboard/rep-dashboard';
+import { AnalysisComparison } from '@/components/history/analysis-comparison';
+import { HistoryList } from '@/components/history/history-list';
+import { SecureStoragePanel } from '@/components/security/secure-storage-panel';
+import { SettingsPanel } from '@/components/settings/settings-panel';
+import { SpeakerMapping } from '@/components/transcript/speaker-mapping';
 import { Sidebar, SidebarBody, SidebarLink } from '@/components/ui/sidebar';
 import { 
   BarChart3, 
@@ -20,42 +38,77 @@ import {
   CheckCircle,
   Upload,
   Settings,
-  Home
+  Layers,
+  ShieldAlert,
+  GitCompare,
+  ListChecks,
+  Target,
+  Home as HomeIcon
 } from 'lucide-react';
-
-interface AnalysisResult {
-  analysisId: string;
-  timestamp: string;
-  processingTime: number;
-  analyses: {
-    conversation: any;
-    psychology: any;
-    objections: any;
-    dealRisk: any;
-    actionPlan: any;
-    qualification: any;
-  };
-  summary: {
-    overallQualificationScore: number;
-    investmentReadiness: string;
-    keyInsights: string[];
-    criticalActions: string[];
-    riskLevel: string;
-    recommendedNextSteps: string[];
-  };
-}
+import { requestAnalysis, streamAnalysis } from '@/lib/analysis/api';
+import { initialStageProgress, type StageProgress } from '@/lib/analysis/pipeline';
+import type { QualificationModel } from '@/lib/analysis/qualification';
+import { mergeSectionResults, summarizeAnalyses } from '@/lib/analysis/result';
+import { ANALYSIS_STAGES, formatStageOrder } from '@/lib/analysis/stages';
+import { callTimeOf, resolveActionTasks } from '@/lib/analysis/tasks';
+import type { BatchItem } from '@/lib/batch/queue';
+import { EMPTY_METADATA, type ActionTask, type AnalysisResult, type AnalysisSectionKey, type AnalysisSections, type CallMetadata, type EngineSelection } from '@/lib/analysis/types';
+import { pushToCrm } from '@/lib/crm/api';
+import { buildCrmObjects } from '@/lib/crm/mapping';
+import { appendCrmSyncLog, clearCrmSyncLog, loadCrmSyncLog } from '@/lib/crm/sync-log';
+import type { CrmSyncRecord } from '@/lib/crm/types';
+import { getDocumentFormat } from '@/lib/documents/client';
+import { downloadFile, fileSlug } from '@/lib/export/download';
+import { historyToCsv } from '@/lib/export/csv';
+import { tasksToICalendar } from '@/lib/export/ics';
+import { analysisToJson } from '@/lib/export/json';
+import { buildCoachingReport, type ReportSectionId } from '@/lib/export/report';
+import { reportToHtml } from '@/lib/export/report-html';
+import { reportToMarkdown } from '@/lib/export/report-markdown';
+import { reportToPdf } from '@/lib/export/report-pdf';
+import { deleteAnalysis, loadHistory, pruneHistory, saveAnalysis, type HistoryEntry } from '@/lib/history/store';
+import { analysisRateLimiter, apiRateLimiter, FrontendSecurity } from '@/lib/security';
+import { backendSelection, DEFAULT_SETTINGS, type AppSettings } from '@/lib/settings/settings';
+import {
+  activeSettingsUser,
+  DEFAULT_SETTINGS_USER,
+  listSettingsUsers,
+  loadSettings,
+  saveSettings,
+  setActiveSettingsUser
+} from '@/lib/settings/store';
+import { loadTranscriptFile } from '@/lib/transcript/load';
+import { countWords } from '@/lib/transcript/metrics';
+import { parseTranscript } from '@/lib/transcript/parser';
+import type { SpeakerMap } from '@/lib/transcript/types';
+import { storageVault } from '@/lib/vault';
 
 const sidebarLinks = [
   {
     label: "Dashboard",
     href: "#dashboard",
-    icon: <Home className="h-5 w-5" />
+    icon: <HomeIcon className="h-5 w-5" />
+  },
+  {
+    label: "New Analysis",
+    href: "#new",
+    icon: <Upload className="h-5 w-5" />
+  },
+  {
+    label: "Batch",
+    href: "#batch",
+    icon: <Layers className="h-5 w-5" />
   },
   {
     label: "Analysis",
     href: "#analysis",
     icon: <BarChart3 className="h-5 w-5" />
   },
+  {
+    label: "Compare",
+    href: "#compare",
+    icon: <GitCompare className="h-5 w-5" />
+  },
   {
     label: "Psychology",
     href: "#psychology",
@@ -66,6 +119,26 @@ const sidebarLinks = [
     href: "#conversation",
     icon: <MessageSquare className="h-5 w-5" />
   },
+  {
+    label: "Objections",
+    href: "#objections",
+    icon: <ShieldAlert className="h-5 w-5" />
+  },
+  {
+    label: "Deal Risk",
+    href: "#risk",
+    icon: <AlertTriangle className="h-5 w-5" />
+  },
+  {
+    label: "Qualification",
+    href: "#qualification",
+    icon: <Target className="h-5 w-5" />
+  },
+  {
+    label: "Action Plan",
+    href: "#actions",
+    icon: <ListChecks className="h-5 w-5" />
+  },
   {
     label: "Settings",
     href: "#settings",
@@ -75,119 +148,414 @@ const sidebarLinks = [
 
 export default function Home() {
   const [transcript, setTranscript] = useState('');
-  const [metadata, setMetadata] = useState({
-    prospectName: '',
-    prospectAge: '',
-    retirementStatus: '',
-    accountTypes: [] as string[],
-    accountValues: '',
-    familyMembers: '',
-    investmentExperience: '',
-    goldIRAInterest: '',
-    currentConcerns: '',
-    timeframe: '',
-    duration: '',
-    salesRep: '',
-    callPurpose: '',
-    previousContact: false
-  });
+  const [metadata, setMetadata] = useState<CallMetadata>(EMPTY_METADATA);
   
+  const [speakerMap, setSpeakerMap] = useState<SpeakerMap>({});
+  const [importNote, setImportNote] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [stageProgress, setStageProgress] = useState<StageProgress[]>([]);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [activeSection, setActiveSection] = useState('dashboard');
-
-  const handleFileUpload = (files: File[]) => {
-    if (files.length > 0) {
-      const file = files[0];
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setTranscript(e.target?.result as string);
-      };
-      reader.readAsText(file);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [retryingSection, setRetryingSection] = useState<AnalysisSectionKey | null>(null);
+  const [activeSection, setActiveSection] = useState('new');
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [lockedHistoryCount, setLockedHistoryCount] = useState(0);
+  const [storageLocked, setStorageLocked] = useState(false);
+  const [sessionKeyOnly, setSessionKeyOnly] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [settingsUser, setSettingsUser] = useState(DEFAULT_SETTINGS_USER);
+  const [settingsUsers, setSettingsUsers] = useState<string[]>([DEFAULT_SETTINGS_USER]);
+  const [crmSyncLog, setCrmSyncLog] = useState<CrmSyncRecord[]>([]);
+  const [isSyncingCrm, setIsSyncingCrm] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // File the transcript was loaded from, until the text is edited by hand
+  const uploadedFileRef = useRef<File | null>(null);
+  const historySaveRef = useRef<Promise<void>>(Promise.resolve());
+  // Inputs the current result was produced from, reused when retrying a stage
+  const [analyzedInput, setAnalyzedInput] = useState<{ transcript: string; metadata: CallMetadata; speakerMap: SpeakerMap } | null>(null);
+
+  const parsedTranscript = useMemo(
+    () => parseTranscript(transcript, { metadata, speakerMap }),
+    [transcript, metadata, speakerMap]
+  );
+  const analyzedTurns = useMemo(
+    () => (analyzedInput ? parseTranscript(analyzedInput.transcript, analyzedInput).turns : []),
+    [analyzedInput]
+  );
+  const transcriptValidation = useMemo(() => FrontendSecurity.validateTranscript(transcript), [transcript]);
+
+  // Reasons the Analyze button is disabled, shown inline beneath it
+  const analysisBlockers = [
+    !transcriptValidation.valid && transcriptValidation.error,
+    !metadata.prospectName.trim() && 'Prospect name is required',
+    parsedTranscript.ambiguous && 'Assign speaker roles before analyzing'
+  ].filter((reason): reason is string => !!reason);
+
+  const { engine, qualificationModel, riskThresholds, stageOrder } = settings;
+  const backend = useMemo(() => backendSelection(settings), [settings]);
+  const crmObjects = useMemo(
+    () => (analysisResult ? buildCrmObjects(analysisResult, analyzedInput?.metadata ?? metadata, settings.crmMapping) : []),
+    [analysisResult, analyzedInput, metadata, settings.crmMapping]
+  );
+  const currentAnalysisId = analysisResult?.analysisId;
+
+  useEffect(() => {
+    const user = activeSettingsUser();
+    setSettingsUser(user);
+    setSettingsUsers(listSettingsUsers());
+    setSettings(loadSettings(user));
+  }, []);
+
+  useEffect(() => {
+    const { analysis, api } = settings.rateLimits;
+    analysisRateLimiter.configure(analysis.maxRequests, analysis.windowMinutes * 60_000);
+    apiRateLimiter.configure(api.maxRequests, api.windowMinutes * 60_000);
+  }, [settings.rateLimits]);
+
+  const refreshHistory = useCallback(() => {
+    const status = storageVault.status();
+    setStorageLocked(status.locked);
+    setSessionKeyOnly(status.mode === 'session');
+    loadHistory()
+      .then(({ entries, locked }) => {
+        setHistory(entries);
+        setLockedHistoryCount(locked);
+      })
+      .catch(error => console.warn('Failed to load analysis history:', error));
+  }, []);
+
+  // Apply the retention period whenever it is loaded or changed
+  useEffect(() => {
+    if (settings.retentionDays === 0) return;
+    const cutoff = new Date(Date.now() - settings.retentionDays * 24 * 60 * 60 * 1000);
+    pruneHistory(cutoff)
+      .then(removed => (removed > 0 ? refreshHistory() : undefined))
+      .catch(error => console.warn('Failed to apply history retention:', error));
+  }, [settings.retentionDays, refreshHistory]);
+
+  // History is sealed by the vault, so reload it whenever the vault is locked, unlocked or rotated
+  useEffect(() => {
+    refreshHistory();
+    const unsubscribe = storageVault.subscribe(refreshHistory);
+    return () => {
+      unsubscribe();
+    };
+  }, [refreshHistory]);
+
+  useEffect(() => {
+    if (!currentAnalysisId) {
+      setCrmSyncLog([]);
+      return;
+    }
+    let cancelled = false;
+    loadCrmSyncLog(currentAnalysisId)
+      .then(records => {
+        if (!cancelled) setCrmSyncLog(records);
+      })
+      .catch(error => console.warn('Failed to load the CRM sync log:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentAnalysisId, storageLocked]);
+
+  // Saves run one at a time, so an earlier edit can never overwrite a later one
+  const recordHistory = useCallback((entry: Omit<HistoryEntry, 'savedAt'>) => {
+    historySaveRef.current = historySaveRef.current.then(async () => {
+      try {
+        const saved = await saveAnalysis(entry);
+        setHistory(prev =>
+          prev.some(e => e.analysisId === saved.analysisId)
+            ? prev.map(e => (e.analysisId === saved.analysisId ? saved : e))
+            : [saved, ...prev]
+        );
+      } catch (error) {
+        console.warn('Failed to save analysis history:', error);
+      }
+    });
+    return historySaveRef.current;
+  }, []);
+
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    setTranscript(entry.transcript);
+    setMetadata(entry.metadata);
+    setSpeakerMap(entry.speakerMap);
+    setImportNote(null);
+    uploadedFileRef.current = null;
+    setAnalyzedInput({ transcript: entry.transcript, metadata: entry.metadata, speakerMap: entry.speakerMap });
+    setAnalysisResult(entry.result);
+    setAnalysisError(null);
+    setActiveSection('analysis');
+  };
+
+  const handleDeleteHistory = async (entry: HistoryEntry) => {
+    if (!window.confirm(`Delete the analysis for ${entry.metadata.prospectName}?`)) return;
+    try {
+      await deleteAnalysis(entry.analysisId);
+      clearCrmSyncLog(entry.analysisId);
+      setHistory(prev => prev.filter(e => e.analysisId !== entry.analysisId));
+    } catch (error) {
+      console.warn('Failed to delete analysis:', error);
+    }
+  };
+
+  // Values sealed with keys from earlier sessions can never be opened again
+  const handleDeleteUnreadable = async () => {
+    if (!window.confirm(`Delete ${lockedHistoryCount} unreadable ${lockedHistoryCount === 1 ? 'analysis' : 'analyses'} and any other stored data the current key cannot decrypt?`)) return;
+    try {
+      await storageVault.purgeUnreadable();
+      refreshHistory();
+    } catch (error) {
+      console.warn('Failed to delete unreadable data:', error);
+    }
+  };
+
+  const handleFileUpload = async (files: File[]) => {
+    const file = files[0];
+    if (!file) return;
+
+    setImportError(null);
+    setImportNote(null);
+    setIsExtracting(getDocumentFormat(file) !== null);
+    try {
+      const loaded = await loadTranscriptFile(file);
+      setTranscript(loaded.transcript);
+      setImportNote(loaded.note);
+      setSpeakerMap({});
+      uploadedFileRef.current = file;
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not import transcript file');
+    } finally {
+      setIsExtracting(false);
     }
   };
 
+  const handleFileRemove = (file: File) => {
+    if (uploadedFileRef.current !== file) return;
+    uploadedFileRef.current = null;
+    setTranscript('');
+    setSpeakerMap({});
+    setImportNote(null);
+    setImportError(null);
+  };
+
+  const handleOpenBatchResult = (item: BatchItem) => {
+    if (!item.result) return;
+    setAnalyzedInput({ transcript: item.transcript, metadata: item.metadata, speakerMap: item.speakerMap });
+    setAnalysisResult(item.result);
+    setActiveSection('analysis');
+  };
+
   const handleAnalyze = async () => {
-    if (!transcript || !metadata.prospectName) {
-      alert('Please provide both transcript and prospect name');
+    if (analysisBlockers.length > 0) {
+      return;
+    }
+
+    if (!analysisRateLimiter.checkLimit().allowed) {
+      setAnalysisError('Too many analysis requests. Please wait before trying again.');
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsAnalyzing(true);
+    setAnalysisError(null);
+    setStageProgress(initialStageProgress(stageOrder));
     
     try {
-      // Mock analysis for demo - replace with actual MCP server call
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const mockResult: AnalysisResult = {
-        analysisId: 'analysis-' + Date.now(),
-        timestamp: new Date().toISOString(),
-        processingTime: 2847,
-        analyses: {
-          conversation: {
-            conversationScorecard: {
-              overallQuality: 78,
-              discovery: 85,
-              rapportBuilding: 72,
-              valuePresentation: 68,
-              objectionHandling: 75,
-              nextStepsClarity: 82
-            }
-          },
-          psychology: {
-            personalityType: {
-              primary: 'analytical',
-              confidence: 85
-            }
-          },
-          objections: {},
-          dealRisk: {},
-          actionPlan: {},
-          qualification: {
-            qualificationSummary: {
-              opportunityScore: 78,
-              recommendation: 'proceed_cautiously'
-            }
-          }
-        },
-        summary: {
-          overallQualificationScore: 78,
-          investmentReadiness: 'medium',
-          keyInsights: [
-            'Strong analytical personality with data-driven decision making',
-            'Family involvement crucial for decision process',
-            'Budget qualified but timeline needs clarification'
-          ],
-          criticalActions: [
-            'Schedule joint call with spouse',
-            'Send IRA rollover education materials',
-            'Address gold storage concerns'
-          ],
-          riskLevel: 'medium',
-          recommendedNextSteps: [
-            'Follow up within 24 hours',
-            'Provide educational materials',
-            'Schedule family consultation'
-          ]
-        }
-      };
-      
-      setAnalysisResult(mockResult);
+      const result = await streamAnalysis(transcript, metadata, (stage) => {
+        setStageProgress(prev => prev.map(s => (s.prompt === stage.prompt ? stage : s)));
+      }, { stages: stageOrder, engine, speakerMap, qualificationModel, riskThresholds, backend, signal: controller.signal });
+
+      setAnalyzedInput({ transcript, metadata, speakerMap });
+      setAnalysisResult(result);
       setActiveSection('analysis');
+      recordHistory({ analysisId: result.analysisId, transcript, metadata, speakerMap, result });
     } catch (error) {
-      console.error('Analysis failed:', error);
-      alert('Analysis failed. Please try again.');
+      if (controller.signal.aborted) {
+        setAnalysisError('Analysis cancelled.');
+      } else {
+        console.error('Analysis failed:', error);
+        setAnalysisError(error instanceof Error ? error.message : 'Analysis failed. Please try again.');
+      }
     } finally {
+      abortRef.current = null;
       setIsAnalyzing(false);
     }
   };
 
-  const renderDashboard = () => (
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleRetrySection = async (section: AnalysisSectionKey) => {
+    const input = analyzedInput;
+    if (!analysisResult || !input) return;
+
+    const stage = ANALYSIS_STAGES.find(s => s.section === section);
+    if (!stage) return;
+
+    const previousResults = Object.fromEntries(
+      Object.entries(analysisResult.analyses).filter(([, value]) => value !== null)
+    );
+
+    setRetryingSection(section);
+    try {
+      if (!analysisRateLimiter.checkLimit().allowed) {
+        throw new Error('Too many analysis requests. Please wait before trying again.');
+      }
+      const update = await requestAnalysis(input.transcript, input.metadata, {
+        stages: [stage.prompt],
+        previousResults,
+        engine: analysisResult.engine,
+        speakerMap: input.speakerMap,
+        qualificationModel,
+        riskThresholds,
+        backend
+      });
+      const merged = mergeSectionResults(analysisResult, update, [section]);
+      setAnalysisResult(merged);
+      recordHistory({ analysisId: merged.analysisId, ...input, result: merged });
+    } catch (error) {
+      console.error(`Retrying ${section} failed:`, error);
+      setAnalysisResult(current => current && {
+        ...current,
+        sectionErrors: {
+          ...current.sectionErrors,
+          [section]: error instanceof Error ? error.message : 'Retry failed. Please try again.'
+        }
+      });
+    } finally {
+      setRetryingSection(null);
+    }
+  };
+
+  // Edits made after the analysis ran are saved with it in history
+  const updateAnalyses = (patch: Partial<AnalysisResult['analyses']>) => {
+    if (!analysisResult) return;
+
+    const analyses = { ...analysisResult.analyses, ...patch };
+    const updated = { ...analysisResult, analyses, summary: summarizeAnalyses(analyses) };
+    setAnalysisResult(updated);
+    if (analyzedInput) recordHistory({ analysisId: updated.analysisId, ...analyzedInput, result: updated });
+  };
+
+  const handleTasksChange = (tasks: ActionTask[]) => {
+    const actionPlan = analysisResult?.analyses.actionPlan;
+    if (actionPlan) updateAnalyses({ actionPlan: { ...actionPlan, tasks } });
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next, settingsUser);
+  };
+
+  const handleSwitchSettingsUser = (user: string) => {
+    const userSettings = loadSettings(user);
+    saveSettings(userSettings, user);
+    setActiveSettingsUser(user);
+    setSettingsUser(user);
+    setSettingsUsers(listSettingsUsers());
+    setSettings(userSettings);
+  };
+
+  const handleQualificationModelChange = (model: QualificationModel) => {
+    handleSettingsChange({ ...settings, qualificationModel: model });
+  };
+
+  const handleExportTasks = (tasks: ActionTask[]) => {
+    if (!analysisResult) return;
+    const prospectName = analyzedInput?.metadata.prospectName ?? '';
+    const calendar = tasksToICalendar(tasks, { analysisId: analysisResult.analysisId, prospectName });
+    downloadFile(`follow-ups-${fileSlug(prospectName)}.ics`, calendar, 'text/calendar');
+  };
+
+  const handleExportReport = (format: ReportFormat, sections: ReportSectionId[]) => {
+    if (!analysisResult) return;
+    const reportMetadata = analyzedInput?.metadata ?? metadata;
+    const report = buildCoachingReport(analysisResult, reportMetadata, { sections });
+    const fileName = `coaching-report-${fileSlug(reportMetadata.prospectName)}`;
+    if (format === 'pdf') {
+      downloadFile(`${fileName}.pdf`, reportToPdf(report), 'application/pdf');
+    } else if (format === 'markdown') {
+      downloadFile(`${fileName}.md`, reportToMarkdown(report), 'text/markdown');
+    } else {
+      downloadFile(`${fileName}.html`, reportToHtml(report), 'text/html');
+    }
+  };
+
+  const handleCopyMarkdown = async (sections: ReportSectionId[]) => {
+    if (!analysisResult) return;
+    const report = buildCoachingReport(analysisResult, analyzedInput?.metadata ?? metadata, { sections });
+    await navigator.clipboard.writeText(reportToMarkdown(report));
+  };
+
+  const handleExportJson = () => {
+    if (!analysisResult) return;
+    const jsonMetadata = analyzedInput?.metadata ?? metadata;
+    downloadFile(
+      `analysis-${fileSlug(jsonMetadata.prospectName)}.json`,
+      analysisToJson(analysisResult, jsonMetadata),
+      'application/json'
+    );
+  };
+
+  // IDs used for the same prospect name in other saved calls, for confirming a CRM match
+  const crmProspectIdSuggestions = useMemo(() => {
+    const name = analyzedInput?.metadata.prospectName.trim().toLowerCase();
+    if (!name) return [];
+    const ids = history
+      .filter(entry => entry.analysisId !== analysisResult?.analysisId && entry.metadata.prospectName.trim().toLowerCase() === name)
+      .map(entry => entry.metadata.crmProspectId?.trim())
+      .filter((id): id is string => !!id && id !== analyzedInput?.metadata.crmProspectId);
+    return [...new Set(ids)];
+  }, [history, analyzedInput, analysisResult?.analysisId]);
+
+  const handleCrmProspectIdChange = (crmProspectId: string) => {
+    if (!analyzedInput || !analysisResult) return;
+    const input = { ...analyzedInput, metadata: { ...analyzedInput.metadata, crmProspectId } };
+    setAnalyzedInput(input);
+    recordHistory({ analysisId: analysisResult.analysisId, ...input, result: analysisResult });
+  };
+
+  const handlePushToCrm = async () => {
+    if (!analysisResult) return;
+    const { analysisId } = analysisResult;
+    setIsSyncingCrm(true);
+    let record: CrmSyncRecord;
+    try {
+      const response = await pushToCrm(analysisId, crmObjects);
+      record = { syncedAt: new Date().toISOString(), status: response.status, results: response.results };
+    } catch (error) {
+      record = {
+        syncedAt: new Date().toISOString(),
+        status: 'failed',
+        results: [],
+        error: error instanceof Error ? error.message : 'CRM sync failed'
+      };
+    } finally {
+      setIsSyncingCrm(false);
+    }
+    try {
+      setCrmSyncLog(await appendCrmSyncLog(analysisId, record));
+    } catch (error) {
+      // Still show the outcome when secure storage is locked
+      console.warn('Failed to save the CRM sync log:', error);
+      setCrmSyncLog(prev => [record, ...prev]);
+    }
+  };
+
+  const handleExportHistory = (entries: HistoryEntry[]) => {
+    downloadFile(`analysis-history-${new Date().toISOString().slice(0, 10)}.csv`, historyToCsv(entries), 'text/csv');
+  };
+
+  const renderNewAnalysis = () => (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">Gold IRA Sales Analysis</h1>
         <Badge variant="outline" className="text-lg px-3 py-1">
-          Order: 2→3→4→5→6→1
+          Order: {formatStageOrder(stageOrder)}
         </Badge>
       </div>
       
@@ -201,16 +569,47 @@ export default function Home() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <FileUpload onChange={handleFileUpload} />
+            <FileUpload
+              onChange={handleFileUpload}
+              onRemove={handleFileRemove}
+              rules={FrontendSecurity.DEFAULT_FILE_RULES}
+            />
+            {isExtracting && (
+              <p className="text-sm text-gray-600">Extracting text from document...</p>
+            )}
+            {importNote && (
+              <Badge variant="secondary">{importNote}</Badge>
+            )}
+            {importError && (
+              <p className="text-sm text-red-600">{importError}</p>
+            )}
             <div className="space-y-2">
               <Label>Or paste transcript directly:</Label>
               <Textarea
                 value={transcript}
-                onChange={(e) => setTranscript(e.target.value)}
+                onChange={(e) => {
+                  setTranscript(e.target.value);
+                  setImportNote(null);
+                  uploadedFileRef.current = null;
+                }}
                 placeholder="Paste the Gold IRA sales call transcript here..."
                 className="min-h-[200px]"
+                aria-invalid={!!transcript && !transcriptValidation.valid}
               />
+              {transcript && (
+                transcriptValidation.valid ? (
+                  <p className="text-sm text-gray-600">{countWords(transcript)} words</p>
+                ) : (
+                  <p className="text-sm text-red-600">{transcriptValidation.error}</p>
+                )
+              )}
             </div>
+            {parsedTranscript.speakers.length > 0 && (
+              <SpeakerMapping
+                parsed={parsedTranscript}
+                onChange={(update) => setSpeakerMap(prev => ({ ...prev, ...update }))}
+              />
+            )}
           </CardContent>
         </Card>
 
@@ -304,9 +703,43 @@ export default function Home() {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Call Date</Label>
+              <Input
+                type="datetime-local"
+                value={metadata.callDateTime}
+                onChange={(e) => setMetadata({...metadata, callDateTime: e.target.value})}
+              />
+              <p className="text-xs text-muted-foreground">Due dates like &quot;tomorrow&quot; count from here; left empty, they count from when the call is analyzed.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>CRM Prospect ID</Label>
+              <Input
+                value={metadata.crmProspectId}
+                onChange={(e) => setMetadata({...metadata, crmProspectId: e.target.value})}
+                placeholder="CRM contact ID or email"
+              />
+              <p className="text-xs text-muted-foreground">Calls with the same ID update the same CRM contact and opportunity; left empty, the call gets its own.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Analysis Engine</Label>
+              <Select value={engine} onValueChange={(value) => handleSettingsChange({ ...settings, engine: value as EngineSelection })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto (model, heuristic fallback)</SelectItem>
+                  <SelectItem value="mcp">Model backend only</SelectItem>
+                  <SelectItem value="heuristic">Heuristic (offline)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <Button 
               onClick={handleAnalyze}
-              disabled={isAnalyzing || !transcript || !metadata.prospectName}
+              disabled={isAnalyzing || analysisBlockers.length > 0}
               className="w-full"
             >
               {isAnalyzing ? (
@@ -319,12 +752,26 @@ export default function Home() {
               )}
             </Button>
 
+            {!isAnalyzing && analysisBlockers.length > 0 && (
+              <ul className="text-sm text-gray-600 space-y-1">
+                {analysisBlockers.map(reason => (
+                  <li key={reason}>• {reason}</li>
+                ))}
+              </ul>
+            )}
+
             {isAnalyzing && (
-              <div className="space-y-2">
-                <div className="text-sm text-muted-foreground">Processing prompts: 2→3→4→5→6→1</div>
-                <Progress value={66} className="w-full" />
+              <div className="space-y-3">
+                <PipelineProgress stages={stageProgress} />
+                <Button variant="outline" onClick={handleCancel} className="w-full">
+                  Cancel Analysis
+                </Button>
               </div>
             )}
+
+            {analysisError && !isAnalyzing && (
+              <SectionError message={analysisError} onRetry={handleAnalyze} />
+            )}
           </CardContent>
         </Card>
       </div>
@@ -345,6 +792,9 @@ export default function Home() {
         <div className="flex items-center justify-between">
           <h2 className="text-2xl font-bold">Analysis Results</h2>
           <div className="flex gap-2">
+            {analysisResult.engine === 'heuristic' && (
+              <Badge variant="secondary">Heuristic estimate</Badge>
+            )}
             <Badge variant="outline">Score: {analysisResult.summary.overallQualificationScore}/100</Badge>
             <Badge variant={analysisResult.summary.investmentReadiness === 'high' ? 'default' : 'secondary'}>
               {analysisResult.summary.investmentReadiness.toUpperCase()}
@@ -352,6 +802,26 @@ export default function Home() {
           </div>
         </div>
 
+        {analysisResult.engine === 'heuristic' && (
+          <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800 dark:border-yellow-900 dark:bg-yellow-950 dark:text-yellow-200">
+            These results come from the offline rule-based engine (keyword and structure heuristics),
+            not the model backend. Treat scores as rough estimates.
+          </div>
+        )}
+
+        {Object.keys(analysisResult.sectionErrors).length > 0 && (
+          <div className="space-y-2">
+            {(Object.entries(analysisResult.sectionErrors) as [AnalysisSectionKey, string][]).map(([section, message]) => (
+              <SectionError
+                key={section}
+                message={message}
+                onRetry={() => handleRetrySection(section)}
+                retrying={retryingSection === section}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Summary Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card>
@@ -415,17 +885,21 @@ export default function Home() {
               <CardTitle>Conversation Analysis</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {Object.entries(analysisResult.analyses.conversation.conversationScorecard).map(([key, value]) => (
-                  <div key={key} className="space-y-2">
-                    <div className="flex justify-between">
-                      <span className="text-sm font-medium capitalize">{key.replace(/([A-Z])/g, ' $1')}</span>
-                      <span className="text-sm">{value}/100</span>
+              {analysisResult.analyses.conversation ? (
+                <div className="space-y-4">
+                  {Object.entries(analysisResult.analyses.conversation.conversationScorecard).map(([key, value]) => (
+                    <div key={key} className="space-y-2">
+                      <div className="flex justify-between">
+                        <span className="text-sm font-medium capitalize">{key.replace(/([A-Z])/g, ' $1')}</span>
+                        <span className="text-sm">{value}/100</span>
+                      </div>
+                      <Progress value={value} className="h-2" />
                     </div>
-                    <Progress value={value as number} className="h-2" />
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              ) : (
+                <SectionError message="Conversation analysis unavailable" />
+              )}
             </CardContent>
           </Card>
 
@@ -480,6 +954,77 @@ export default function Home() {
             </CardContent>
           </Card>
         </div>
+
+        <ReportExport onExport={handleExportReport} onCopyMarkdown={handleCopyMarkdown} onExportJson={handleExportJson} />
+        <CrmSyncPanel
+          key={analysisResult.analysisId}
+          objects={crmObjects}
+          log={crmSyncLog}
+          syncing={isSyncingCrm}
+          prospectId={analyzedInput?.metadata.crmProspectId ?? ''}
+          suggestedProspectIds={crmProspectIdSuggestions}
+          onProspectIdChange={handleCrmProspectIdChange}
+          onPush={handlePushToCrm}
+        />
+      </div>
+    );
+  };
+
+  // Detail view for one analysis section, with its error and retry when it failed
+  const renderSectionView = <K extends AnalysisSectionKey>(
+    section: K,
+    title: string,
+    icon: ReactNode,
+    render: (data: AnalysisSections[K]) => ReactNode
+  ) => {
+    if (!analysisResult) {
+      return (
+        <div className="text-center py-12">
+          {icon}
+          <p className="text-muted-foreground">No analysis results yet. Please run an analysis first.</p>
+        </div>
+      );
+    }
+
+    const data = analysisResult.analyses[section];
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold">{title}</h2>
+          {analysisResult.engine === 'heuristic' && (
+            <Badge variant="secondary">Heuristic estimate</Badge>
+          )}
+        </div>
+        {data ? (
+          render(data as AnalysisSections[K])
+        ) : (
+          <SectionError
+            message={analysisResult.sectionErrors[section] ?? `${title} unavailable`}
+            onRetry={() => handleRetrySection(section)}
+            retrying={retryingSection === section}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderConversation = () => {
+    if (!analysisResult || analyzedTurns.length === 0) {
+      return (
+        <div className="text-center py-12">
+          <MessageSquare className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">No analysis results yet. Please run an analysis first.</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <h2 className="text-2xl font-bold">Conversation Timeline</h2>
+        <ConversationTimeline
+          turns={analyzedTurns}
+          scorecard={analysisResult.analyses.conversation?.conversationScorecard}
+        />
       </div>
     );
   };
@@ -502,30 +1047,107 @@ export default function Home() {
                 />
               ))}
             </div>
+            <div className="mt-6 border-t border-neutral-200 dark:border-neutral-700 pt-4">
+              <HistoryList
+                entries={history}
+                activeId={analysisResult?.analysisId}
+                onOpen={handleOpenHistory}
+                onDelete={handleDeleteHistory}
+                onExport={handleExportHistory}
+                lockedCount={lockedHistoryCount}
+                paused={storageLocked}
+                sessionKeyOnly={sessionKeyOnly}
+                onSetPassphrase={() => setActiveSection('settings')}
+                onDeleteUnreadable={handleDeleteUnreadable}
+              />
+            </div>
           </div>
         </SidebarBody>
       </Sidebar>
       
       <div className="flex-1 overflow-auto">
         <div className="p-6">
-          {activeSection === 'dashboard' && renderDashboard()}
+          {activeSection === 'dashboard' && <RepDashboard entries={history} />}
+          {activeSection === 'new' && renderNewAnalysis()}
+          {/* Kept mounted so a running batch survives switching sections */}
+          <div className={activeSection === 'batch' ? '' : 'hidden'}>
+            <BatchAnalysis
+              defaultSalesRep={metadata.salesRep}
+              engine={engine}
+              stageOrder={stageOrder}
+              qualificationModel={qualificationModel}
+              riskThresholds={riskThresholds}
+              backend={backend}
+              onOpenResult={handleOpenBatchResult}
+              onItemComplete={(item, result) =>
+                recordHistory({ analysisId: result.analysisId, transcript: item.transcript, metadata: item.metadata, speakerMap: item.speakerMap, result })
+              }
+            />
+          </div>
           {activeSection === 'analysis' && renderAnalysis()}
-          {activeSection === 'psychology' && (
-            <div className="text-center py-12">
-              <Brain className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-              <p className="text-muted-foreground">Psychology analysis details coming soon...</p>
-            </div>
+          {activeSection === 'compare' && (
+            <AnalysisComparison entries={history} activeId={analysisResult?.analysisId} />
           )}
-          {activeSection === 'conversation' && (
-            <div className="text-center py-12">
-              <MessageSquare className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-              <p className="text-muted-foreground">Conversation analysis details coming soon...</p>
-            </div>
+          {activeSection === 'psychology' && renderSectionView(
+            'psychology',
+            'Prospect Psychology',
+            <Brain className="w-16 h-16 mx-auto text-muted-foreground mb-4" />,
+            psychology => <PsychologyView psychology={psychology} />
+          )}
+          {activeSection === 'risk' && renderSectionView(
+            'dealRisk',
+            'Deal Risk',
+            <AlertTriangle className="w-16 h-16 mx-auto text-muted-foreground mb-4" />,
+            dealRisk => <DealRiskView dealRisk={dealRisk} />
+          )}
+          {activeSection === 'objections' && renderSectionView(
+            'objections',
+            'Objections',
+            <ShieldAlert className="w-16 h-16 mx-auto text-muted-foreground mb-4" />,
+            ({ objections }) => <ObjectionsView objections={objections} />
+          )}
+          {activeSection === 'conversation' && renderConversation()}
+          {activeSection === 'qualification' && renderSectionView(
+            'qualification',
+            'Qualification',
+            <Target className="w-16 h-16 mx-auto text-muted-foreground mb-4" />,
+            qualification => (
+              <div className="space-y-6">
+                <QualificationView
+                  qualification={qualification}
+                  riskLevel={analysisResult?.analyses.dealRisk?.riskLevel}
+                  model={qualificationModel}
+                  onRescore={(rescored) => updateAnalyses({ qualification: rescored })}
+                />
+                <QualificationModelEditor key={settingsUser} model={qualificationModel} onChange={handleQualificationModelChange} />
+              </div>
+            )
+          )}
+          {activeSection === 'actions' && renderSectionView(
+            'actionPlan',
+            'Action Plan',
+            <ListChecks className="w-16 h-16 mx-auto text-muted-foreground mb-4" />,
+            actionPlan => {
+              const tasks = resolveActionTasks(
+                actionPlan,
+                callTimeOf(analyzedInput?.metadata, analysisResult?.timestamp ?? new Date().toISOString()),
+                analyzedInput?.metadata.salesRep
+              );
+              return <ActionPlanView tasks={tasks} onChange={handleTasksChange} onExport={() => handleExportTasks(tasks)} />;
+            }
           )}
           {activeSection === 'settings' && (
-            <div className="text-center py-12">
-              <Settings className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-              <p className="text-muted-foreground">Settings panel coming soon...</p>
+            <div className="space-y-6 max-w-2xl">
+              <h2 className="text-2xl font-bold">Settings</h2>
+              <SettingsPanel
+                key={settingsUser}
+                settings={settings}
+                user={settingsUser}
+                users={settingsUsers}
+                onChange={handleSettingsChange}
+                onSwitchUser={handleSwitchSettingsUser}
+              />
+              <SecureStoragePanel />
             </div>
           )}
         </div>
@@ -0,0 +1,165 @@
+import { useState, type ComponentProps } from 'react';
+import { CalendarPlus, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_TASK_OWNER } from '@/lib/analysis/tasks';
+import type { ActionTask, TaskPriority } from '@/lib/analysis/types';
+import { cn } from '@/lib/utils';
+
+const PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+const priorityRank: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+const priorityStyles: Record<TaskPriority, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-green-100 text-green-800'
+};
+
+// datetime-local inputs work in local time without a zone suffix
+function toLocalInput(iso?: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+/**
+ * Text input that edits a local draft and reports it once on blur, so a task
+ * edit is saved to history once rather than on every keystroke
+ */
+function DraftInput({
+  value,
+  onCommit,
+  ...props
+}: Omit<ComponentProps<typeof Input>, 'value' | 'onChange' | 'onBlur'> & { value: string; onCommit: (value: string) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+  return (
+    <Input
+      {...props}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== null && draft !== value) onCommit(draft);
+        setDraft(null);
+      }}
+    />
+  );
+}
+
+export function ActionPlanView({
+  tasks,
+  onChange,
+  onExport
+}: {
+  tasks: ActionTask[];
+  onChange: (tasks: ActionTask[]) => void;
+  onExport: () => void;
+}) {
+  const sorted = [...tasks].sort((a, b) =>
+    Number(a.status === 'done') - Number(b.status === 'done') || priorityRank[a.priority] - priorityRank[b.priority]
+  );
+  const done = tasks.filter(task => task.status === 'done').length;
+  const exportable = tasks.filter(task => task.status === 'open' && task.dueAt).length;
+
+  const updateTask = (id: string, patch: Partial<ActionTask>) => {
+    onChange(tasks.map(task => (task.id === id ? { ...task, ...patch } : task)));
+  };
+
+  const addTask = () => {
+    const next = Math.max(0, ...tasks.map(task => Number(task.id.replace(/^task-/, '')) || 0)) + 1;
+    onChange([...tasks, { id: `task-${next}`, title: '', owner: DEFAULT_TASK_OWNER, priority: 'medium', status: 'open' }]);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+        <div>
+          <CardTitle>Follow-up Tasks</CardTitle>
+          <p className="text-sm text-muted-foreground">{done} of {tasks.length} done</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={addTask}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add task
+          </Button>
+          <Button size="sm" onClick={onExport} disabled={exportable === 0}>
+            <CalendarPlus className="h-4 w-4 mr-1" />
+            Export .ics
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sorted.length === 0 && (
+          <p className="text-sm text-muted-foreground">No follow-up tasks. Add one to start the plan.</p>
+        )}
+        {sorted.map(task => (
+          <div key={task.id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={task.status === 'done'}
+                onChange={(e) => updateTask(task.id, { status: e.target.checked ? 'done' : 'open' })}
+                aria-label={`Mark "${task.title}" as done`}
+                className="h-4 w-4 accent-primary"
+              />
+              <DraftInput
+                value={task.title}
+                onCommit={(title) => updateTask(task.id, { title })}
+                placeholder="Task"
+                aria-label="Task"
+                className={cn('flex-1', task.status === 'done' && 'line-through text-muted-foreground')}
+              />
+              <Badge className={priorityStyles[task.priority]}>{task.priority}</Badge>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(tasks.filter(other => other.id !== task.id))}
+                aria-label="Delete task"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid gap-2 pl-7 sm:grid-cols-3">
+              <DraftInput
+                value={task.owner}
+                onCommit={(owner) => updateTask(task.id, { owner })}
+                placeholder="Owner"
+                aria-label="Owner"
+              />
+              <DraftInput
+                type="datetime-local"
+                value={toLocalInput(task.dueAt)}
+                // A hand-set (or cleared) date replaces the phrase it was resolved from
+                onCommit={(due) => updateTask(task.id, { dueAt: fromLocalInput(due), dueText: undefined })}
+                aria-label="Due"
+                title={task.dueText ? `From "${task.dueText}"` : undefined}
+              />
+              <Select
+                value={task.priority}
+                onValueChange={(priority) => updateTask(task.id, { priority: priority as TaskPriority })}
+              >
+                <SelectTrigger className="w-full" aria-label="Priority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority} className="capitalize">
+                      {priority}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
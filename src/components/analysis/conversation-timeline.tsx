@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import { HelpCircle, MessageSquare, Mic, Timer } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import {
+  buildConversationTimeline,
+  SCORECARD_DIMENSIONS,
+  type ScorecardDimension,
+  type SentimentLabel
+} from '@/lib/analysis/timeline';
+import type { ConversationScorecard } from '@/lib/analysis/types';
+import { formatTimestamp } from '@/lib/transcript/parser';
+import type { SpeakerRole, TranscriptTurn } from '@/lib/transcript/types';
+import { cn } from '@/lib/utils';
+
+const roleStyles: Record<SpeakerRole, string> = {
+  rep: 'text-blue-700 dark:text-blue-300',
+  prospect: 'text-amber-700 dark:text-amber-300',
+  other: 'text-muted-foreground',
+  unknown: 'text-muted-foreground'
+};
+
+const sentimentStyles: Record<SentimentLabel, string> = {
+  positive: 'bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-200',
+  neutral: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  negative: 'bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-200'
+};
+
+const dimensionLabels = Object.fromEntries(SCORECARD_DIMENSIONS.map(({ key, label }) => [key, label])) as Record<ScorecardDimension, string>;
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function sentimentDot(score: number | null): string {
+  if (score === null || Math.abs(score) < 20) return 'bg-gray-300';
+  return score > 0 ? 'bg-green-500' : 'bg-red-500';
+}
+
+export function ConversationTimeline({
+  turns,
+  scorecard
+}: {
+  turns: TranscriptTurn[];
+  scorecard?: ConversationScorecard | null;
+}) {
+  const timeline = useMemo(() => buildConversationTimeline(turns), [turns]);
+  const [focus, setFocus] = useState<ScorecardDimension | null>(null);
+
+  const dimensionCounts = SCORECARD_DIMENSIONS.map(({ key, label }) => ({
+    key,
+    label,
+    earned: timeline.moments.filter(m => m.dimension === key && m.effect === 'earned').length,
+    lost: timeline.moments.filter(m => m.dimension === key && m.effect === 'lost').length
+  }));
+  const { longestMonologue } = timeline;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-6 space-y-2">
+            <p className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <Mic className="h-4 w-4" />
+              Talk Time ({timeline.shareBasis === 'duration' ? 'by time' : 'by words'})
+            </p>
+            {timeline.speakers.map(speaker => (
+              <div key={speaker.speaker} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className={cn('truncate', roleStyles[speaker.role])}>{speaker.speaker}</span>
+                  <span>{speaker.share}%</span>
+                </div>
+                <Progress value={speaker.share} className="h-2" />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6 space-y-1">
+            <p className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <Timer className="h-4 w-4" />
+              Longest Monologue
+            </p>
+            {longestMonologue ? (
+              <>
+                <p className="text-2xl font-bold">
+                  {longestMonologue.durationMs !== undefined ? formatDuration(longestMonologue.durationMs) : `${longestMonologue.words} words`}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  <span className={roleStyles[longestMonologue.role]}>{longestMonologue.speaker}</span>, turn {longestMonologue.startTurn + 1}
+                  {longestMonologue.endTurn > longestMonologue.startTurn && `–${longestMonologue.endTurn + 1}`}
+                </p>
+              </>
+            ) : (
+              <p className="text-2xl font-bold">—</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6 space-y-1">
+            <p className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <HelpCircle className="h-4 w-4" />
+              Questions
+            </p>
+            <p className="text-2xl font-bold">{timeline.repQuestions} rep · {timeline.prospectQuestions} prospect</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-6 space-y-1">
+            <p className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+              <MessageSquare className="h-4 w-4" />
+              Turns
+            </p>
+            <p className="text-2xl font-bold">{timeline.turns.length}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Prospect Sentiment Through the Call</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-1">
+            {timeline.segments.map((segment, index) => (
+              <div
+                key={index}
+                className={cn('rounded-md p-2 text-xs', sentimentStyles[segment.label])}
+                style={{ flexGrow: segment.endTurn - segment.startTurn + 1, flexBasis: 0 }}
+                title={`Turns ${segment.startTurn + 1}–${segment.endTurn + 1}`}
+              >
+                <p className="font-medium capitalize">{segment.label}</p>
+                <p>
+                  {segment.startMs !== undefined ? formatTimestamp(segment.startMs) : `Turn ${segment.startTurn + 1}`}
+                  {segment.score !== null && ` · ${segment.score > 0 ? '+' : ''}${segment.score}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Where the Scorecard Was Earned or Lost</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {dimensionCounts.map(dimension => (
+              <button
+                key={dimension.key}
+                type="button"
+                onClick={() => setFocus(focus === dimension.key ? null : dimension.key)}
+                className={cn(
+                  'rounded-md border px-3 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-800',
+                  focus === dimension.key && 'border-blue-500 bg-blue-50 dark:bg-blue-950'
+                )}
+              >
+                <p className="font-medium">
+                  {dimension.label}
+                  {scorecard && <span className="ml-2 text-muted-foreground">{scorecard[dimension.key]}/100</span>}
+                </p>
+                <p className="text-xs">
+                  <span className="text-green-700">+{dimension.earned} earned</span>
+                  {' · '}
+                  <span className="text-red-700">−{dimension.lost} lost</span>
+                </p>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Moments are detected from transcript cues. Select a dimension to highlight its turns.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Timeline</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ol className="space-y-3">
+            {timeline.turns.map((turn, index) => {
+              const moments = timeline.moments.filter(m => m.turnIndex === index);
+              const dimmed = focus !== null && !moments.some(m => m.dimension === focus);
+              return (
+                <li key={index} className={cn('grid grid-cols-[4.5rem_1fr] gap-3 text-sm', dimmed && 'opacity-40')}>
+                  <span className="pt-0.5 text-xs text-muted-foreground tabular-nums">
+                    {turn.startMs !== undefined ? formatTimestamp(turn.startMs) : `#${index + 1}`}
+                  </span>
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className={cn('h-2 w-2 rounded-full', sentimentDot(timeline.turnSentiment[index]))} />
+                      <span className={cn('font-medium', roleStyles[turn.role])}>{turn.speaker}</span>
+                    </div>
+                    <p>{turn.text}</p>
+                    {moments.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {moments.map((moment, i) => (
+                          <Badge
+                            key={i}
+                            variant="outline"
+                            className={cn('whitespace-normal', moment.effect === 'earned' ? 'border-green-300 text-green-700' : 'border-red-300 text-red-700')}
+                            title={moment.reason}
+                          >
+                            {moment.effect === 'earned' ? '+' : '−'} {dimensionLabels[moment.dimension]}: {moment.reason}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
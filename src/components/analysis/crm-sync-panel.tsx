@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { CloudUpload, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CRM_OBJECT_TYPES } from '@/lib/crm/mapping';
+import type { CrmObject, CrmSyncRecord, CrmSyncStatus } from '@/lib/crm/types';
+
+const STATUS_VARIANTS: Record<CrmSyncStatus, 'default' | 'secondary' | 'destructive'> = {
+  synced: 'default',
+  partial: 'secondary',
+  failed: 'destructive'
+};
+
+/**
+ * Push the mapped contact, opportunity, tasks and note for an analysis to the
+ * CRM, with the outcome of earlier pushes underneath. The prospect ID decides
+ * which contact and opportunity are updated.
+ */
+export function CrmSyncPanel({
+  objects,
+  log,
+  syncing,
+  prospectId,
+  suggestedProspectIds,
+  onProspectIdChange,
+  onPush
+}: {
+  objects: CrmObject[];
+  log: CrmSyncRecord[];
+  syncing: boolean;
+  prospectId: string;
+  // IDs other calls with this prospect name used
+  suggestedProspectIds: string[];
+  onProspectIdChange: (prospectId: string) => void;
+  onPush: () => void;
+}) {
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const counts = CRM_OBJECT_TYPES
+    .map(({ type, label }) => ({ label, count: objects.filter(object => object.type === type).length }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CloudUpload className="h-5 w-5" />
+          CRM Sync
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="crm-prospect-id">CRM prospect ID</Label>
+          <Input
+            id="crm-prospect-id"
+            value={draftId ?? prospectId}
+            onChange={(e) => setDraftId(e.target.value)}
+            onBlur={() => {
+              if (draftId !== null && draftId.trim() !== prospectId) onProspectIdChange(draftId.trim());
+              setDraftId(null);
+            }}
+            placeholder="CRM contact ID or email"
+          />
+          <p className="text-xs text-muted-foreground">
+            {prospectId
+              ? 'Pushes update the contact and opportunity of every call with this ID.'
+              : 'Without an ID this call gets its own contact and opportunity.'}
+          </p>
+          {suggestedProspectIds.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              Earlier calls with this prospect used:
+              {suggestedProspectIds.map(id => (
+                <Button key={id} variant="outline" size="sm" onClick={() => onProspectIdChange(id)}>
+                  {id}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button onClick={onPush} disabled={syncing || objects.length === 0}>
+            {syncing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <CloudUpload className="h-4 w-4 mr-1" />}
+            {syncing ? 'Pushing…' : 'Push to CRM'}
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {counts.length > 0
+              ? counts.map(({ label, count }) => `${label}: ${count}`).join(' · ')
+              : 'Every CRM object is disabled in Settings.'}
+          </span>
+        </div>
+
+        {log.length > 0 && (
+          <ul className="space-y-3">
+            {log.map(record => (
+              <li key={record.syncedAt} className="rounded-lg border p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground">{new Date(record.syncedAt).toLocaleString()}</span>
+                  <Badge variant={STATUS_VARIANTS[record.status]}>{record.status}</Badge>
+                </div>
+                {record.error && <p className="mt-2 text-destructive">{record.error}</p>}
+                {record.results.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {record.results.map(result => (
+                      <li key={`${result.type}:${result.externalId}`} className="flex flex-wrap gap-x-2">
+                        <span className={result.status === 'failed' ? 'text-destructive' : undefined}>
+                          {result.status === 'synced' ? '✓' : '✗'} {result.type}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {result.crmId ? `#${result.crmId}` : result.externalId}
+                          {result.attempts > 1 && ` after ${result.attempts} attempts`}
+                        </span>
+                        {result.error && <span className="text-destructive">{result.error}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
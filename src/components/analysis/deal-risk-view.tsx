@@ -0,0 +1,91 @@
+import { AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { DealRiskAnalysis, RiskLevel } from '@/lib/analysis/types';
+
+const levelStyles: Record<RiskLevel, string> = {
+  low: 'text-green-600',
+  medium: 'text-yellow-600',
+  high: 'text-red-600'
+};
+
+export function DealRiskView({ dealRisk }: { dealRisk: DealRiskAnalysis }) {
+  const factors = [...(dealRisk.factors ?? [])].sort((a, b) => b.contribution - a.contribution);
+  const triggered = factors.filter(factor => factor.contribution > 0);
+  const clear = factors.filter(factor => factor.contribution === 0);
+  const total = triggered.reduce((sum, factor) => sum + factor.contribution, 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Deal Risk</p>
+              <p className={`text-3xl font-bold capitalize ${levelStyles[dealRisk.riskLevel]}`}>{dealRisk.riskLevel}</p>
+              {dealRisk.riskScore !== undefined && (
+                <p className="text-sm text-muted-foreground">Risk score {dealRisk.riskScore}/100</p>
+              )}
+            </div>
+            <AlertTriangle className={`h-10 w-10 ${levelStyles[dealRisk.riskLevel]}`} />
+          </div>
+          {dealRisk.riskScore !== undefined && <Progress value={dealRisk.riskScore} className="mt-4 h-2" />}
+        </CardContent>
+      </Card>
+
+      {factors.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No risk factor breakdown was returned for this analysis.</p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Why This Deal Is Flagged</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {triggered.length === 0 && (
+                <p className="text-sm text-muted-foreground">No risk factors were triggered.</p>
+              )}
+              {triggered.map(factor => (
+                <div key={factor.id} className="space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span className="font-medium">{factor.label}</span>
+                    <span className="text-muted-foreground">
+                      +{factor.contribution} of {factor.weight} pts
+                      {total > 0 && ` · ${Math.round((factor.contribution / total) * 100)}% of risk`}
+                    </span>
+                  </div>
+                  <Progress value={factor.weight ? (factor.contribution / factor.weight) * 100 : 0} className="h-2" />
+                  {factor.evidence.length > 0 && (
+                    <ul className="space-y-1">
+                      {factor.evidence.map((evidence, index) => (
+                        <li key={index} className="border-l-2 border-muted-foreground/30 pl-3 text-sm text-muted-foreground">
+                          {evidence}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {clear.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Not Triggered</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {clear.map(factor => (
+                  <Badge key={factor.id} variant="outline" className="text-muted-foreground">
+                    {factor.label} (up to {factor.weight} pts)
+                  </Badge>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
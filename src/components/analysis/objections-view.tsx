@@ -0,0 +1,128 @@
+import { CheckCircle, ShieldAlert } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { objectionLabel, OBJECTION_PATTERNS } from '@/lib/analysis/cues';
+import type { Objection } from '@/lib/analysis/types';
+import { formatTimestamp } from '@/lib/transcript/parser';
+import { QuoteList } from './quote-list';
+
+function qualityColor(score: number): string {
+  return score >= 70 ? 'text-green-700' : score >= 40 ? 'text-yellow-700' : 'text-red-700';
+}
+
+function location(objection: Objection): string | null {
+  const parts = [
+    objection.turnIndex !== undefined && `Turn ${objection.turnIndex + 1}`,
+    objection.timestampMs !== undefined && formatTimestamp(objection.timestampMs)
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : null;
+}
+
+export function ObjectionsView({ objections }: { objections: Objection[] }) {
+  const unresolved = objections.filter(objection => !objection.resolved);
+  const rated = objections.flatMap(objection => objection.responseQuality ?? []);
+  const averageQuality = rated.length ? Math.round(rated.reduce((sum, score) => sum + score, 0) / rated.length) : null;
+
+  if (objections.length === 0) {
+    return (
+      <div className="flex items-center gap-2 rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800 dark:border-green-900 dark:bg-green-950 dark:text-green-200">
+        <CheckCircle className="h-4 w-4" />
+        No objections were detected on this call.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-muted-foreground">Objections Raised</p>
+            <p className="text-3xl font-bold">{objections.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-muted-foreground">Resolved</p>
+            <p className="text-3xl font-bold">{objections.length - unresolved.length}/{objections.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-muted-foreground">Avg. Response Quality</p>
+            <p className={`text-3xl font-bold ${averageQuality === null ? '' : qualityColor(averageQuality)}`}>
+              {averageQuality ?? '—'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-red-600" />
+            Unresolved Objections
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {unresolved.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Every objection raised was resolved on the call.</p>
+          ) : (
+            <ul className="space-y-3">
+              {unresolved.map((objection, index) => (
+                <li key={`${objection.category}-${index}`} className="text-sm">
+                  <p className="font-medium">{objectionLabel(objection.category)}</p>
+                  <p className="text-muted-foreground">
+                    {OBJECTION_PATTERNS.find(p => p.category === objection.category)?.action ?? 'Follow up on this concern'}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        {objections.map((objection, index) => (
+          <Card key={`${objection.category}-${index}`}>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold">{objectionLabel(objection.category)}</span>
+                <Badge
+                  variant="outline"
+                  className={objection.resolved ? 'border-green-300 text-green-700' : 'border-red-300 text-red-700'}
+                >
+                  {objection.resolved ? 'Resolved' : 'Unresolved'}
+                </Badge>
+                {location(objection) && (
+                  <span className="ml-auto text-xs text-muted-foreground">{location(objection)}</span>
+                )}
+              </div>
+
+              <QuoteList quotes={objection.quote ? [objection.quote] : undefined} />
+
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Rep response</p>
+                <p className="text-sm text-muted-foreground">{objection.repResponse ?? 'Not captured'}</p>
+              </div>
+
+              {objection.responseQuality !== undefined && (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">Response quality</span>
+                    <span className={qualityColor(objection.responseQuality)}>{objection.responseQuality}/100</span>
+                  </div>
+                  <Progress value={objection.responseQuality} className="h-2" />
+                  {objection.responseFeedback && (
+                    <p className="text-xs text-muted-foreground">{objection.responseFeedback}</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { CheckCircle, Circle, Loader2, XCircle } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import type { StageProgress, StageStatus } from '@/lib/analysis/pipeline';
+import { formatStageOrder } from '@/lib/analysis/stages';
+
+const statusIcons: Record<StageStatus, React.ReactNode> = {
+  queued: <Circle className="w-4 h-4 text-muted-foreground" />,
+  running: <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />,
+  done: <CheckCircle className="w-4 h-4 text-green-600" />,
+  failed: <XCircle className="w-4 h-4 text-red-600" />
+};
+
+export function PipelineProgress({ stages }: { stages: StageProgress[] }) {
+  const finished = stages.filter(stage => stage.status === 'done' || stage.status === 'failed').length;
+  const percent = stages.length ? Math.round((finished / stages.length) * 100) : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>Processing prompts: {formatStageOrder(stages.map(stage => stage.prompt))}</span>
+        <span>{finished}/{stages.length}</span>
+      </div>
+      <Progress value={percent} className="w-full" />
+      <ul className="space-y-1">
+        {stages.map(stage => (
+          <li key={stage.prompt} className="flex items-center gap-2 text-sm">
+            {statusIcons[stage.status]}
+            <span className="flex-1">
+              {stage.prompt}. {stage.label}
+            </span>
+            <span className="text-xs text-muted-foreground capitalize">
+              {stage.elapsedMs !== undefined ? `${stage.elapsedMs}ms` : stage.status}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { Brain, Heart, MessageCircle, ShieldCheck, ShieldAlert, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { PsychologyAnalysis } from '@/lib/analysis/types';
+import { QuoteList } from './quote-list';
+
+function EmptyNote({ children }: { children: React.ReactNode }) {
+  return <p className="text-sm text-muted-foreground">{children}</p>;
+}
+
+export function PsychologyView({ psychology }: { psychology: PsychologyAnalysis }) {
+  const { personalityType, decisionMakingStyle, emotionalDrivers, trustSignals, communicationStyle } = psychology;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5" />
+            Personality Type
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-2xl font-bold capitalize">{personalityType.primary}</span>
+            {personalityType.secondary && (
+              <Badge variant="secondary" className="capitalize">Secondary: {personalityType.secondary}</Badge>
+            )}
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Confidence</span>
+              <span>{personalityType.confidence}%</span>
+            </div>
+            <Progress value={personalityType.confidence} className="h-2" />
+          </div>
+          <QuoteList quotes={personalityType.quotes} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Decision-Making Style
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {decisionMakingStyle ? (
+            <p className="text-2xl font-bold capitalize">{decisionMakingStyle}</p>
+          ) : (
+            <EmptyNote>Not determined from this call.</EmptyNote>
+          )}
+          <QuoteList quotes={psychology.decisionMakingQuotes} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Heart className="h-5 w-5" />
+            Emotional Drivers
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {emotionalDrivers?.length ? (
+            emotionalDrivers.map(driver => (
+              <div key={driver.label} className="space-y-2">
+                <p className="font-medium">{driver.label}</p>
+                {driver.description && <p className="text-sm text-muted-foreground">{driver.description}</p>}
+                <QuoteList quotes={driver.quotes} />
+              </div>
+            ))
+          ) : (
+            <EmptyNote>No emotional drivers identified.</EmptyNote>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Trust Signals
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {trustSignals?.length ? (
+            trustSignals.map(signal => (
+              <div key={signal.label} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  {signal.effect === 'builds' ? (
+                    <ShieldCheck className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <ShieldAlert className="h-4 w-4 text-red-600" />
+                  )}
+                  <p className="font-medium">{signal.label}</p>
+                  <Badge
+                    variant="outline"
+                    className={signal.effect === 'builds' ? 'border-green-300 text-green-700' : 'border-red-300 text-red-700'}
+                  >
+                    {signal.effect === 'builds' ? 'Builds trust' : 'Erodes trust'}
+                  </Badge>
+                </div>
+                {signal.description && <p className="text-sm text-muted-foreground">{signal.description}</p>}
+                <QuoteList quotes={signal.quotes} />
+              </div>
+            ))
+          ) : (
+            <EmptyNote>No trust signals identified.</EmptyNote>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageCircle className="h-5 w-5" />
+            Recommended Communication Style
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {communicationStyle ? (
+            <>
+              <p className="font-medium">{communicationStyle.recommendation}</p>
+              {communicationStyle.tips && communicationStyle.tips.length > 0 && (
+                <ul className="space-y-2">
+                  {communicationStyle.tips.map((tip, index) => (
+                    <li key={index} className="flex items-start gap-2 text-sm">
+                      <div className="w-2 h-2 bg-blue-600 rounded-full mt-1.5 flex-shrink-0" />
+                      {tip}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <QuoteList quotes={communicationStyle.quotes} />
+            </>
+          ) : (
+            <EmptyNote>No communication guidance for this call.</EmptyNote>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
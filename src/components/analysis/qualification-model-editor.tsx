@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { NumberField } from '@/components/settings/number-field';
+import {
+  DEFAULT_QUALIFICATION_MODEL,
+  QUALIFICATION_FACTORS,
+  qualificationModelSchema,
+  type QualificationModel
+} from '@/lib/analysis/qualification';
+import type { RiskLevel } from '@/lib/analysis/types';
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+/**
+ * Weights and thresholds of the qualification model. Changes apply as soon
+ * as the model is valid.
+ */
+export function QualificationModelEditor({
+  model,
+  onChange
+}: {
+  model: QualificationModel;
+  onChange: (model: QualificationModel) => void;
+}) {
+  const [draft, setDraft] = useState(model);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (next: QualificationModel) => {
+    setDraft(next);
+    const parsed = qualificationModelSchema.safeParse(next);
+    setError(parsed.success ? null : parsed.error.issues[0].message);
+    if (parsed.success) onChange(parsed.data);
+  };
+
+  const totalWeight = Object.values(draft.weights).reduce((sum, weight) => sum + (weight || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle>Scoring Model</CardTitle>
+        <Button variant="outline" size="sm" onClick={() => update(DEFAULT_QUALIFICATION_MODEL)}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset to defaults
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Factor weights</p>
+          <p className="text-xs text-muted-foreground">
+            Relative weights, scaled to 100 points (currently {totalWeight} in total).
+          </p>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+            {QUALIFICATION_FACTORS.map(({ id, label }) => (
+              <NumberField
+                key={id}
+                id={`weight-${id}`}
+                label={label}
+                value={draft.weights[id]}
+                onChange={(weight) => update({ ...draft, weights: { ...draft.weights, [id]: weight } })}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+          <NumberField
+            id="minimum-rollover"
+            label="Minimum rollover ($)"
+            step={1000}
+            value={draft.minimumRollover}
+            onChange={(minimumRollover) => update({ ...draft, minimumRollover })}
+          />
+          <NumberField
+            id="threshold-medium"
+            label="Medium readiness from"
+            value={draft.readinessThresholds.medium}
+            onChange={(medium) => update({ ...draft, readinessThresholds: { ...draft.readinessThresholds, medium } })}
+          />
+          <NumberField
+            id="threshold-high"
+            label="High readiness from"
+            value={draft.readinessThresholds.high}
+            onChange={(high) => update({ ...draft, readinessThresholds: { ...draft.readinessThresholds, high } })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Deal risk deduction (pts)</p>
+          <div className="grid grid-cols-3 gap-3">
+            {RISK_LEVELS.map(level => (
+              <NumberField
+                key={level}
+                id={`risk-penalty-${level}`}
+                label={`${level[0].toUpperCase()}${level.slice(1)} risk`}
+                value={draft.riskPenalty[level]}
+                onChange={(penalty) => update({ ...draft, riskPenalty: { ...draft.riskPenalty, [level]: penalty } })}
+              />
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
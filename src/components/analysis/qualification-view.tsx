@@ -0,0 +1,124 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { applyQualificationModel, type QualificationModel } from '@/lib/analysis/qualification';
+import type { InvestmentReadiness, QualificationAnalysis, QualificationStatus, RiskLevel } from '@/lib/analysis/types';
+import { QuoteList } from './quote-list';
+
+const statusStyles: Record<QualificationStatus, { label: string; className: string }> = {
+  met: { label: 'Met', className: 'bg-green-100 text-green-800' },
+  partial: { label: 'Partial', className: 'bg-yellow-100 text-yellow-800' },
+  unmet: { label: 'Not met', className: 'bg-red-100 text-red-800' },
+  unknown: { label: 'Not captured', className: 'bg-gray-100 text-gray-800' }
+};
+
+const readinessStyles: Record<InvestmentReadiness, string> = {
+  high: 'text-green-600',
+  medium: 'text-yellow-600',
+  low: 'text-red-600'
+};
+
+/**
+ * The qualification score under the current model, explained factor by
+ * factor. Saved analyses scored under an older model can be updated in place.
+ */
+export function QualificationView({
+  qualification,
+  riskLevel,
+  model,
+  onRescore
+}: {
+  qualification: QualificationAnalysis;
+  riskLevel?: RiskLevel;
+  model: QualificationModel;
+  onRescore?: (qualification: QualificationAnalysis) => void;
+}) {
+  const scored = applyQualificationModel(qualification, model, riskLevel);
+  const { opportunityScore, investmentReadiness, recommendation } = scored.qualificationSummary;
+  const savedScore = qualification.qualificationSummary.opportunityScore;
+  const factors = scored.factors ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Opportunity Score</p>
+              <p className="text-3xl font-bold">{opportunityScore}/100</p>
+            </div>
+            <div className="text-right">
+              <p className={`text-lg font-semibold capitalize ${readinessStyles[investmentReadiness]}`}>
+                {investmentReadiness} readiness
+              </p>
+              <p className="text-sm text-muted-foreground capitalize">{recommendation.replace(/_/g, ' ')}</p>
+            </div>
+          </div>
+          <Progress value={opportunityScore} className="h-2" />
+          {savedScore !== opportunityScore && (
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm">
+              <span className="text-muted-foreground">
+                Scored {savedScore} when analyzed; {opportunityScore} under the current model.
+              </span>
+              {onRescore && (
+                <Button size="sm" variant="outline" onClick={() => onRescore(scored)}>
+                  Update saved score
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {factors.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No qualification breakdown was returned for this analysis.</p>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>How the Score Adds Up</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {factors.map(factor => (
+              <div key={factor.id} className="space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{factor.label}</span>
+                    <Badge className={statusStyles[factor.status].className}>{statusStyles[factor.status].label}</Badge>
+                  </div>
+                  <span className="text-muted-foreground">+{factor.contribution} of {factor.weight} pts</span>
+                </div>
+                <Progress value={factor.fulfillment * 100} className="h-2" />
+                <p className="text-sm text-muted-foreground">{factor.detail}</p>
+                <QuoteList quotes={factor.evidence} />
+              </div>
+            ))}
+            {!!scored.riskAdjustment && (
+              <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-4 text-sm">
+                <span className="font-medium">Deal risk adjustment</span>
+                <span className="text-red-600">
+                  −{scored.riskAdjustment} pts ({riskLevel ? `${riskLevel} risk` : 'risk not assessed'})
+                </span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {!!qualification.keyInsights?.length && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Notes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="list-disc space-y-1 pl-5 text-sm">
+              {qualification.keyInsights.map((insight, index) => (
+                <li key={index}>{insight}</li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
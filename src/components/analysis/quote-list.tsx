@@ -0,0 +1,13 @@
+export function QuoteList({ quotes }: { quotes?: string[] }) {
+  if (!quotes?.length) return null;
+
+  return (
+    <div className="space-y-1">
+      {quotes.map((quote, index) => (
+        <blockquote key={index} className="border-l-2 border-muted-foreground/30 pl-3 text-sm italic text-muted-foreground">
+          &ldquo;{quote}&rdquo;
+        </blockquote>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Check, ClipboardCopy, FileDown, FileJson, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DEFAULT_REPORT_SECTIONS, REPORT_SECTIONS, type ReportSectionId } from '@/lib/export/report';
+
+export type ReportFormat = 'html' | 'pdf' | 'markdown';
+
+/**
+ * Pick the sections for a coaching report and download it as HTML, PDF or
+ * Markdown. The JSON export always holds the complete analysis.
+ */
+export function ReportExport({
+  onExport,
+  onCopyMarkdown,
+  onExportJson
+}: {
+  onExport: (format: ReportFormat, sections: ReportSectionId[]) => void;
+  onCopyMarkdown: (sections: ReportSectionId[]) => Promise<void>;
+  onExportJson: () => void;
+}) {
+  const [selected, setSelected] = useState<ReportSectionId[]>(DEFAULT_REPORT_SECTIONS);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await onCopyMarkdown(selected);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.warn('Copying the Markdown summary failed:', error);
+    }
+  };
+
+  const toggle = (id: ReportSectionId, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, id] : prev.filter(other => other !== id)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Export
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+          {REPORT_SECTIONS.map(({ id, label }) => (
+            <label key={id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.includes(id)}
+                onChange={(e) => toggle(id, e.target.checked)}
+                className="h-4 w-4 accent-primary"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => onExport('pdf', selected)} disabled={selected.length === 0}>
+            <FileDown className="h-4 w-4 mr-1" />
+            Download PDF
+          </Button>
+          <Button variant="outline" onClick={() => onExport('html', selected)} disabled={selected.length === 0}>
+            <FileDown className="h-4 w-4 mr-1" />
+            Download HTML
+          </Button>
+          <Button variant="outline" onClick={() => onExport('markdown', selected)} disabled={selected.length === 0}>
+            <FileDown className="h-4 w-4 mr-1" />
+            Download Markdown
+          </Button>
+          <Button variant="outline" onClick={handleCopy} disabled={selected.length === 0}>
+            {copied ? <Check className="h-4 w-4 mr-1" /> : <ClipboardCopy className="h-4 w-4 mr-1" />}
+            {copied ? 'Copied' : 'Copy Markdown'}
+          </Button>
+          <Button variant="outline" onClick={onExportJson}>
+            <FileJson className="h-4 w-4 mr-1" />
+            Download JSON
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Reports are generated in this browser; nothing is uploaded. JSON includes every section.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,25 @@
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export function SectionError({
+  message,
+  onRetry,
+  retrying = false
+}: {
+  message: string;
+  onRetry?: () => void;
+  retrying?: boolean;
+}) {
+  return (
+    <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300">
+      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <span className="flex-1">{message}</span>
+      {onRetry && (
+        <Button variant="outline" size="sm" onClick={onRetry} disabled={retrying}>
+          <RotateCcw className={retrying ? 'animate-spin' : undefined} />
+          {retrying ? 'Retrying...' : 'Retry'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { Fragment, useCallback, useMemo, useRef, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { SpeakerMapping } from '@/components/transcript/speaker-mapping';
+import { FileUpload } from '@/components/ui/file-upload';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { streamAnalysis } from '@/lib/analysis/api';
+import type { QualificationModel } from '@/lib/analysis/qualification';
+import type { RiskThresholds } from '@/lib/analysis/risk';
+import { DEFAULT_STAGE_ORDER } from '@/lib/analysis/stages';
+import { EMPTY_METADATA, type AnalysisResult, type CallMetadata, type EngineSelection } from '@/lib/analysis/types';
+import {
+  BATCH_CONCURRENCY_OPTIONS,
+  callDateFromFileName,
+  isRunnable,
+  parseBatchItem,
+  prospectFromFileName,
+  runBatch,
+  type BatchItem,
+  type BatchItemStatus
+} from '@/lib/batch/queue';
+import type { McpBackendSelection } from '@/lib/mcp/transports';
+import { analysisRateLimiter, FrontendSecurity } from '@/lib/security';
+import { loadTranscriptFile } from '@/lib/transcript/load';
+import type { ParsedTranscript, SpeakerMap } from '@/lib/transcript/types';
+import { BatchSummary } from './batch-summary';
+
+const statusStyles: Record<BatchItemStatus, string> = {
+  loading: 'text-muted-foreground',
+  invalid: 'border-red-300 text-red-700',
+  ready: 'text-muted-foreground',
+  queued: 'text-muted-foreground',
+  rate_limited: 'border-yellow-300 text-yellow-800',
+  running: 'border-blue-300 text-blue-700',
+  done: 'border-green-300 text-green-700',
+  failed: 'border-red-300 text-red-700',
+  cancelled: 'text-muted-foreground'
+};
+
+function statusText(item: BatchItem): string {
+  switch (item.status) {
+    case 'rate_limited':
+      return `Rate limited until ${new Date(item.resumeAt ?? Date.now()).toLocaleTimeString()}`;
+    case 'running':
+      return `Running ${item.stagesDone}/${item.stageCount}`;
+    default:
+      return item.status.replace('_', ' ');
+  }
+}
+
+export function BatchAnalysis({
+  defaultSalesRep,
+  engine,
+  stageOrder = DEFAULT_STAGE_ORDER,
+  qualificationModel,
+  riskThresholds,
+  backend,
+  onOpenResult,
+  onItemComplete
+}: {
+  // Copied into each new item; prospect details start empty for every call
+  defaultSalesRep: string;
+  engine: EngineSelection;
+  stageOrder?: readonly number[];
+  qualificationModel?: QualificationModel;
+  riskThresholds?: RiskThresholds;
+  backend?: McpBackendSelection;
+  onOpenResult: (item: BatchItem) => void;
+  onItemComplete?: (item: BatchItem, result: AnalysisResult) => void;
+}) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [isRunning, setIsRunning] = useState(false);
+  const [uploadKey, setUploadKey] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileIds = useRef(new Map<File, string>());
+  const nextId = useRef(0);
+
+  const updateItem = useCallback((id: string, update: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...update } : item)));
+  }, []);
+
+  const updateMetadata = (id: string, update: Partial<CallMetadata>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, metadata: { ...item.metadata, ...update } } : item)));
+  };
+
+  const updateSpeakerMap = (id: string, update: SpeakerMap) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, speakerMap: { ...item.speakerMap, ...update } } : item)));
+  };
+
+  const handleFiles = async (files: File[]) => {
+    const added: BatchItem[] = files.map(file => {
+      const id = `batch-${Date.now()}-${nextId.current++}`;
+      fileIds.current.set(file, id);
+      return {
+        id,
+        fileName: file.name,
+        transcript: '',
+        metadata: {
+          ...EMPTY_METADATA,
+          accountTypes: [],
+          prospectName: prospectFromFileName(file.name),
+          callDateTime: callDateFromFileName(file.name),
+          salesRep: defaultSalesRep
+        },
+        speakerMap: {},
+        status: 'loading',
+        stagesDone: 0,
+        stageCount: stageOrder.length
+      };
+    });
+    setItems(prev => [...prev, ...added]);
+
+    // One at a time so a stack of PDFs doesn't start a worker per file at once
+    for (const [index, file] of files.entries()) {
+      const { id } = added[index];
+      try {
+        const { transcript } = await loadTranscriptFile(file);
+        const validation = FrontendSecurity.validateTranscript(transcript);
+        updateItem(id, validation.valid ? { transcript, status: 'ready' } : { transcript, status: 'invalid', error: validation.error });
+      } catch (error) {
+        updateItem(id, { status: 'invalid', error: error instanceof Error ? error.message : 'Could not read file' });
+      }
+    }
+  };
+
+  const handleRemove = (file: File) => {
+    const id = fileIds.current.get(file);
+    fileIds.current.delete(file);
+    // Items already handed to the queue stay until the run finishes
+    setItems(prev => prev.filter(item => item.id !== id || ['queued', 'rate_limited', 'running'].includes(item.status)));
+  };
+
+  const handleClear = () => {
+    fileIds.current.clear();
+    setItems([]);
+    setUploadKey(key => key + 1);
+  };
+
+  // Only items that can still run need their speakers checked
+  const parsedItems = useMemo(
+    () => new Map<string, ParsedTranscript>(items.filter(isRunnable).map(item => [item.id, parseBatchItem(item)])),
+    [items]
+  );
+  const runnable = items.filter(
+    item => isRunnable(item) && item.metadata.prospectName.trim() && !parsedItems.get(item.id)?.ambiguous
+  );
+
+  const handleRun = async () => {
+    if (runnable.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runBatch(runnable, {
+        concurrency,
+        rateLimiter: analysisRateLimiter,
+        signal: controller.signal,
+        onUpdate: updateItem,
+        analyze: async (item, signal) => {
+          let finished = 0;
+          const result = await streamAnalysis(
+            item.transcript,
+            item.metadata,
+            stage => {
+              if (stage.status === 'done' || stage.status === 'failed') {
+                updateItem(item.id, { stagesDone: ++finished });
+              }
+            },
+            { stages: [...stageOrder], engine, speakerMap: item.speakerMap, qualificationModel, riskThresholds, backend, signal }
+          );
+          onItemComplete?.(item, result);
+          return result;
+        }
+      });
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const settled = items.filter(item => item.status === 'done' || item.status === 'failed' || item.status === 'cancelled');
+  const showSummary = !isRunning && settled.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Batch Analysis</h2>
+        <p className="text-muted-foreground">
+          Upload a day&apos;s worth of calls and analyze them in one run
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transcripts</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <FileUpload key={uploadKey} multiple onChange={handleFiles} onRemove={handleRemove} rules={FrontendSecurity.DEFAULT_FILE_RULES} />
+
+          {items.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">File</th>
+                    <th className="py-2 pr-4 font-medium">Prospect Name *</th>
+                    <th className="py-2 pr-4 font-medium">Sales Rep</th>
+                    <th className="py-2 pr-4 font-medium">Call Date</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map(item => {
+                    const locked = !isRunnable(item) && item.status !== 'invalid' && item.status !== 'loading';
+                    const parsed = parsedItems.get(item.id);
+                    return (
+                      <Fragment key={item.id}>
+                        <tr className="border-b last:border-0 align-top">
+                          <td className="py-2 pr-4 max-w-[12rem] truncate" title={item.fileName}>{item.fileName}</td>
+                          <td className="py-2 pr-4">
+                            <Input
+                              value={item.metadata.prospectName}
+                              onChange={(e) => updateMetadata(item.id, { prospectName: e.target.value })}
+                              disabled={locked}
+                              className="h-8"
+                              aria-invalid={!item.metadata.prospectName.trim()}
+                            />
+                          </td>
+                          <td className="py-2 pr-4">
+                            <Input
+                              value={item.metadata.salesRep}
+                              onChange={(e) => updateMetadata(item.id, { salesRep: e.target.value })}
+                              disabled={locked}
+                              className="h-8"
+                            />
+                          </td>
+                          <td className="py-2 pr-4">
+                            <Input
+                              type="datetime-local"
+                              value={item.metadata.callDateTime}
+                              onChange={(e) => updateMetadata(item.id, { callDateTime: e.target.value })}
+                              disabled={locked}
+                              className="h-8"
+                            />
+                          </td>
+                          <td className="py-2 space-y-1">
+                            <Badge variant="outline" className={`capitalize ${statusStyles[item.status]}`}>
+                              {statusText(item)}
+                            </Badge>
+                            {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+                            {parsed?.ambiguous && <p className="text-xs text-yellow-700">Assign speaker roles</p>}
+                          </td>
+                        </tr>
+                        {parsed?.ambiguous && (
+                          <tr className="border-b last:border-0">
+                            <td colSpan={5} className="py-2">
+                              <SpeakerMapping parsed={parsed} onChange={(update) => updateSpeakerMap(item.id, update)} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Concurrent analyses</Label>
+              <Select
+                value={String(concurrency)}
+                onValueChange={(value) => setConcurrency(Number(value))}
+                disabled={isRunning}
+              >
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BATCH_CONCURRENCY_OPTIONS.map(option => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isRunning ? (
+              <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                Cancel Batch
+              </Button>
+            ) : (
+              <Button onClick={handleRun} disabled={runnable.length === 0}>
+                Analyze {runnable.length} {runnable.length === 1 ? 'Transcript' : 'Transcripts'}
+              </Button>
+            )}
+            <Button variant="ghost" onClick={handleClear} disabled={isRunning || items.length === 0}>
+              Clear
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Requests share the analysis rate limit; the queue pauses automatically when it is reached.
+          </p>
+        </CardContent>
+      </Card>
+
+      {showSummary && <BatchSummary items={settled} onOpen={onOpenResult} />}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { summarizeBatch, type BatchItem } from '@/lib/batch/queue';
+
+function formatScore(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : String(value);
+}
+
+export function BatchSummary({ items, onOpen }: { items: BatchItem[]; onOpen: (item: BatchItem) => void }) {
+  const summary = summarizeBatch(items);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Batch Summary</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Completed</p>
+            <p className="text-2xl font-bold">{summary.done}/{summary.total}</p>
+            {(summary.failed > 0 || summary.cancelled > 0) && (
+              <p className="text-xs text-red-600">
+                {summary.failed} failed, {summary.cancelled} cancelled
+              </p>
+            )}
+          </div>
+          <div>
+            <p className="text-muted-foreground">Avg. qualification</p>
+            <p className="text-2xl font-bold">{formatScore(summary.averageScore)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Avg. call quality</p>
+            <p className="text-2xl font-bold">{formatScore(summary.averageQuality)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Risk mix</p>
+            <p className="font-medium">
+              {summary.riskMix.high} high · {summary.riskMix.medium} medium · {summary.riskMix.low} low
+            </p>
+            <p className="text-xs text-muted-foreground">{(summary.totalProcessingMs / 1000).toFixed(1)}s processing</p>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">File</th>
+                <th className="py-2 pr-4 font-medium">Prospect</th>
+                <th className="py-2 pr-4 font-medium">Sales Rep</th>
+                <th className="py-2 pr-4 font-medium">Score</th>
+                <th className="py-2 pr-4 font-medium">Readiness</th>
+                <th className="py-2 pr-4 font-medium">Risk</th>
+                <th className="py-2 pr-4 font-medium">Quality</th>
+                <th className="py-2 pr-4 font-medium">Time</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => {
+                const result = item.status === 'done' ? item.result : undefined;
+                return (
+                  <tr key={item.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4 max-w-[12rem] truncate" title={item.fileName}>{item.fileName}</td>
+                    <td className="py-2 pr-4">{item.metadata.prospectName}</td>
+                    <td className="py-2 pr-4">{item.metadata.salesRep || '—'}</td>
+                    {result ? (
+                      <>
+                        <td className="py-2 pr-4">
+                          {formatScore(result.analyses.qualification?.qualificationSummary.opportunityScore)}
+                        </td>
+                        <td className="py-2 pr-4 capitalize">{result.summary.investmentReadiness}</td>
+                        <td className="py-2 pr-4 capitalize">{result.summary.riskLevel}</td>
+                        <td className="py-2 pr-4">
+                          {formatScore(result.analyses.conversation?.conversationScorecard.overallQuality)}
+                        </td>
+                        <td className="py-2 pr-4">{(result.processingTime / 1000).toFixed(1)}s</td>
+                        <td className="py-2 text-right">
+                          <Button variant="outline" size="sm" onClick={() => onOpen(item)}>
+                            View
+                          </Button>
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={6} className="py-2 text-red-600">
+                        {item.error ?? item.status.replace('_', ' ')}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { SCORECARD_METRICS } from '@/lib/analysis/compare';
+import {
+  SCORE_BUCKETS,
+  summarizePerformance,
+  summarizeReps,
+  type RepPerformance,
+  type TrendPoint
+} from '@/lib/history/performance';
+import { filterHistory, type HistoryEntry } from '@/lib/history/store';
+import { cn } from '@/lib/utils';
+
+const DATE_PRESETS = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 }
+];
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - (days - 1));
+  return date.toLocaleDateString('en-CA');
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? '—' : String(value);
+}
+
+function RiskMix({ mix }: { mix: RepPerformance['riskMix'] }) {
+  return (
+    <span>
+      {mix.high} high · {mix.medium} medium · {mix.low} low
+      {mix.unknown > 0 && ` · ${mix.unknown} unknown`}
+    </span>
+  );
+}
+
+/**
+ * Weekly average qualification score as a small line chart
+ */
+function TrendChart({ trend }: { trend: TrendPoint[] }) {
+  const points = trend.filter((point): point is TrendPoint & { averageScore: number } => point.averageScore !== null);
+  if (points.length < 2) {
+    return <p className="text-xs text-muted-foreground">Needs scored calls in at least two weeks.</p>;
+  }
+
+  const width = 240;
+  const height = 60;
+  const step = width / (points.length - 1);
+  const path = points.map((point, index) => `${index * step},${height - (point.averageScore / 100) * height}`).join(' ');
+
+  return (
+    <div className="space-y-1">
+      <svg viewBox={`-4 -4 ${width + 8} ${height + 8}`} className="w-full h-16" role="img" aria-label="Weekly average qualification score">
+        <polyline points={path} fill="none" stroke="currentColor" strokeWidth={2} className="text-blue-600" />
+        {points.map((point, index) => (
+          <circle key={point.weekStart} cx={index * step} cy={height - (point.averageScore / 100) * height} r={3} className="fill-blue-600">
+            <title>{`Week of ${point.weekStart}: ${point.averageScore} avg over ${point.calls} calls`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{points[0].weekStart}</span>
+        <span>{points[points.length - 1].weekStart}</span>
+      </div>
+    </div>
+  );
+}
+
+function RepCard({ rep }: { rep: RepPerformance }) {
+  const scored = rep.scoreDistribution.reduce((sum, count) => sum + count, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="truncate">{rep.salesRep}</span>
+          <Badge variant="outline">{rep.calls} {rep.calls === 1 ? 'call' : 'calls'}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {rep.weakestDimension && (
+          <p>
+            Coach on <span className="font-medium">{rep.weakestDimension.label}</span>{' '}
+            <span className="text-muted-foreground">(avg {rep.weakestDimension.average})</span>
+          </p>
+        )}
+        <div className="space-y-2">
+          <p className="font-medium">Qualification scores</p>
+          {SCORE_BUCKETS.map((bucket, index) => (
+            <div key={bucket.label} className="flex items-center gap-2">
+              <span className="w-14 text-xs text-muted-foreground">{bucket.label}</span>
+              <Progress value={scored ? (rep.scoreDistribution[index] / scored) * 100 : 0} className="h-2 flex-1" />
+              <span className="w-6 text-right text-xs">{rep.scoreDistribution[index]}</span>
+            </div>
+          ))}
+        </div>
+        <div>
+          <p className="font-medium">Risk mix</p>
+          <p className="text-muted-foreground"><RiskMix mix={rep.riskMix} /></p>
+        </div>
+        <div className="space-y-1">
+          <p className="font-medium">Trend</p>
+          <TrendChart trend={rep.trend} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function RepDashboard({ entries }: { entries: HistoryEntry[] }) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const visible = useMemo(() => filterHistory(entries, { from, to }), [entries, from, to]);
+  const team = useMemo(() => summarizePerformance('Team', visible), [visible]);
+  const reps = useMemo(() => summarizeReps(visible), [visible]);
+
+  const applyPreset = (days?: number) => {
+    setFrom(days ? daysAgo(days) : '');
+    setTo('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Rep Performance</h1>
+        <p className="text-muted-foreground">
+          Aggregated from saved analyses, grouped by sales rep
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="dashboard-from">From</Label>
+              <Input id="dashboard-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dashboard-to">To</Label>
+              <Input id="dashboard-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {DATE_PRESETS.map(preset => (
+                <Button key={preset.days} variant="outline" size="sm" onClick={() => applyPreset(preset.days)}>
+                  {preset.label}
+                </Button>
+              ))}
+              <Button variant="ghost" size="sm" onClick={() => applyPreset()}>
+                All time
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {visible.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">
+            {entries.length === 0 ? 'No saved analyses yet. Run an analysis to populate the dashboard.' : 'No analyses in this date range.'}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-sm font-medium text-muted-foreground">Calls</p>
+                <p className="text-3xl font-bold">{team.calls}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-sm font-medium text-muted-foreground">Avg. Qualification</p>
+                <p className="text-3xl font-bold">{formatScore(team.averageScore)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-sm font-medium text-muted-foreground">Avg. Call Quality</p>
+                <p className="text-3xl font-bold">{formatScore(team.averageScorecard.overallQuality)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-sm font-medium text-muted-foreground">Risk Mix</p>
+                <p className="font-medium"><RiskMix mix={team.riskMix} /></p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Scorecard Averages by Rep</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Rep</th>
+                    <th className="py-2 pr-4 font-medium">Calls</th>
+                    <th className="py-2 pr-4 font-medium">Qualification</th>
+                    {SCORECARD_METRICS.map(metric => (
+                      <th key={metric.key} className="py-2 pr-4 font-medium">{metric.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {reps.map(rep => (
+                    <tr key={rep.salesRep} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-medium">{rep.salesRep}</td>
+                      <td className="py-2 pr-4">{rep.calls}</td>
+                      <td className="py-2 pr-4">{formatScore(rep.averageScore)}</td>
+                      {SCORECARD_METRICS.map(metric => (
+                        <td
+                          key={metric.key}
+                          className={cn('py-2 pr-4', rep.weakestDimension?.key === metric.key && 'font-medium text-red-700')}
+                        >
+                          {formatScore(rep.averageScorecard[metric.key])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-muted-foreground">Each rep&apos;s weakest skill is highlighted.</p>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+            {reps.map(rep => (
+              <RepCard key={rep.salesRep} rep={rep} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useMemo, useState } from 'react';
+import { ArrowLeftRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { compareAnalyses, type LevelChange, type LevelDelta, type ScoreDelta } from '@/lib/analysis/compare';
+import type { HistoryEntry } from '@/lib/history/store';
+import { cn } from '@/lib/utils';
+
+const changeStyles: Record<LevelChange, string> = {
+  improved: 'border-green-300 text-green-700',
+  worsened: 'border-red-300 text-red-700',
+  unchanged: 'text-muted-foreground',
+  unknown: 'text-muted-foreground'
+};
+
+function entryLabel(entry: HistoryEntry): string {
+  return [
+    entry.metadata.prospectName,
+    entry.metadata.salesRep,
+    new Date(entry.result.timestamp).toLocaleString()
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Compare the active analysis (or the newest) against the previous call with
+ * the same prospect, falling back to the next analysis in the history
+ */
+function defaultPair(entries: HistoryEntry[], activeId?: string): [string | undefined, string | undefined] {
+  const after = entries.find(entry => entry.analysisId === activeId) ?? entries[0];
+  if (!after) return [undefined, undefined];
+
+  const older = entries.filter(entry => entry.result.timestamp < after.result.timestamp);
+  const prospect = after.metadata.prospectName.trim().toLowerCase();
+  const before =
+    older.find(entry => entry.metadata.prospectName.trim().toLowerCase() === prospect) ??
+    older[0] ??
+    entries.find(entry => entry.analysisId !== after.analysisId);
+  return [before?.analysisId, after.analysisId];
+}
+
+function DeltaValue({ delta }: { delta: number | null }) {
+  if (delta === null) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span className={cn('font-medium', delta > 0 ? 'text-green-700' : delta < 0 ? 'text-red-700' : 'text-muted-foreground')}>
+      {delta > 0 ? `+${delta}` : delta}
+    </span>
+  );
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? '—' : String(value);
+}
+
+function LevelRow({ label, level }: { label: string; level: LevelDelta<string> }) {
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-xl font-bold capitalize">
+        {level.before} → {level.after}
+      </p>
+      <Badge variant="outline" className={`capitalize ${changeStyles[level.change]}`}>
+        {level.change}
+      </Badge>
+    </div>
+  );
+}
+
+function ScoreRow({ label, score }: { label: string; score: ScoreDelta }) {
+  return (
+    <div>
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-xl font-bold">
+        {formatScore(score.before)} → {formatScore(score.after)}
+      </p>
+      <DeltaValue delta={score.delta} />
+    </div>
+  );
+}
+
+function InsightList({ title, insights }: { title: string; insights: string[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{title}</p>
+      {insights.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None</p>
+      ) : (
+        <ul className="space-y-2">
+          {insights.map((insight, index) => (
+            <li key={index} className="flex items-start gap-2 text-sm">
+              <div className="w-2 h-2 bg-blue-600 rounded-full mt-1.5 flex-shrink-0" />
+              {insight}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function AnalysisComparison({ entries, activeId }: { entries: HistoryEntry[]; activeId?: string }) {
+  const [selected, setSelected] = useState<[string | undefined, string | undefined] | null>(null);
+
+  // Fall back to the default pair until both sides are picked, or when a picked entry is deleted
+  const defaults = useMemo(() => defaultPair(entries, activeId), [entries, activeId]);
+  const exists = (id?: string) => entries.some(entry => entry.analysisId === id);
+  const [beforeId, afterId] = selected && exists(selected[0]) && exists(selected[1]) ? selected : defaults;
+
+  const before = entries.find(entry => entry.analysisId === beforeId);
+  const after = entries.find(entry => entry.analysisId === afterId);
+  const comparison = useMemo(
+    () => (before && after && before !== after ? compareAnalyses(before.result, after.result) : null),
+    [before, after]
+  );
+
+  const header = (
+    <div>
+      <h2 className="text-2xl font-bold">Compare Analyses</h2>
+      <p className="text-muted-foreground">
+        Compare a first call with its follow-up, or two reps with similar prospects
+      </p>
+    </div>
+  );
+
+  if (entries.length < 2) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <p className="text-muted-foreground">At least two saved analyses are needed for a comparison.</p>
+      </div>
+    );
+  }
+
+  const picker = (label: string, value: string | undefined, onChange: (id: string) => void) => (
+    <div className="flex-1 min-w-[16rem] space-y-2">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Select an analysis" />
+        </SelectTrigger>
+        <SelectContent>
+          {entries.map(entry => (
+            <SelectItem key={entry.analysisId} value={entry.analysisId}>
+              {entryLabel(entry)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {header}
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-end gap-4">
+            {picker('Baseline', beforeId, id => setSelected([id, afterId]))}
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setSelected([afterId, beforeId])}
+              aria-label="Swap analyses"
+            >
+              <ArrowLeftRight className="h-4 w-4" />
+            </Button>
+            {picker('Compared with', afterId, id => setSelected([beforeId, id]))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {!comparison ? (
+        <p className="text-muted-foreground">Pick two different analyses to compare.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-6">
+                <ScoreRow label="Qualification Score" score={comparison.qualificationScore} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6">
+                <LevelRow label="Risk Level" level={comparison.riskLevel} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-6">
+                <LevelRow label="Investment Readiness" level={comparison.investmentReadiness} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Conversation Scorecard</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Metric</th>
+                    <th className="py-2 pr-4 font-medium">Baseline</th>
+                    <th className="py-2 pr-4 font-medium">Compared</th>
+                    <th className="py-2 font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.scorecard.map(metric => (
+                    <tr key={metric.key} className="border-b last:border-0">
+                      <td className="py-2 pr-4">{metric.label}</td>
+                      <td className="py-2 pr-4">{formatScore(metric.before)}</td>
+                      <td className="py-2 pr-4">{formatScore(metric.after)}</td>
+                      <td className="py-2"><DeltaValue delta={metric.delta} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Key Insights</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <InsightList title="Only in baseline" insights={comparison.insights.onlyBefore} />
+                <InsightList title="Only in compared" insights={comparison.insights.onlyAfter} />
+              </div>
+              {comparison.insights.shared.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {comparison.insights.shared.length} {comparison.insights.shared.length === 1 ? 'insight' : 'insights'} in both
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
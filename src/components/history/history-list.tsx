@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react';
+import { Download, History, Search, Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { callDateOf, filterHistory, historySalesReps, type HistoryEntry } from '@/lib/history/store';
+import { cn } from '@/lib/utils';
+
+const ALL_REPS = 'all';
+
+export function HistoryList({
+  entries,
+  activeId,
+  onOpen,
+  onDelete,
+  onExport,
+  lockedCount = 0,
+  paused = false,
+  sessionKeyOnly = false,
+  onSetPassphrase,
+  onDeleteUnreadable
+}: {
+  entries: HistoryEntry[];
+  activeId?: string;
+  onOpen: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  // Receives the entries matching the current filters
+  onExport?: (entries: HistoryEntry[]) => void;
+  // Saved analyses the current storage key cannot open
+  lockedCount?: number;
+  // Secure storage is locked, so new analyses are not saved
+  paused?: boolean;
+  // Analyses are sealed with a key that is lost on reload
+  sessionKeyOnly?: boolean;
+  onSetPassphrase?: () => void;
+  onDeleteUnreadable?: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [salesRep, setSalesRep] = useState(ALL_REPS);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const reps = useMemo(() => historySalesReps(entries), [entries]);
+  const visible = useMemo(
+    () => filterHistory(entries, { query, salesRep: salesRep === ALL_REPS ? undefined : salesRep, from, to }),
+    [entries, query, salesRep, from, to]
+  );
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2 px-2 font-medium text-neutral-700 dark:text-neutral-200">
+        <History className="h-4 w-4" />
+        History
+        <span className="ml-auto text-xs text-muted-foreground">
+          {visible.length}/{entries.length}
+        </span>
+        {onExport && visible.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onExport(visible)}
+            aria-label="Export listed analyses as CSV"
+            title="Export as CSV"
+            className="p-1 text-muted-foreground hover:text-neutral-900 dark:hover:text-neutral-100"
+          >
+            <Download className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {(paused || lockedCount > 0 || sessionKeyOnly) && (
+        <div className="space-y-1 px-2 text-xs text-yellow-700 dark:text-yellow-300">
+          {paused && <p>Secure storage is locked; new analyses are not saved until it is unlocked in Settings.</p>}
+          {sessionKeyOnly && (
+            <p>
+              Analyses are encrypted with a key for this visit only and can&apos;t be read after a reload.
+              {onSetPassphrase && (
+                <>
+                  {' '}
+                  <button type="button" onClick={onSetPassphrase} className="underline">Set a passphrase</button> to keep them.
+                </>
+              )}
+            </p>
+          )}
+          {lockedCount > 0 && (
+            <p>
+              {lockedCount} saved {lockedCount === 1 ? 'analysis is' : 'analyses are'} encrypted with a key that is locked or no longer available.
+              {onDeleteUnreadable && !paused && (
+                <>
+                  {' '}
+                  <button type="button" onClick={onDeleteUnreadable} className="underline">Delete unreadable data</button>
+                </>
+              )}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search prospect"
+          className="h-8 pl-8"
+        />
+      </div>
+      {reps.length > 0 && (
+        <Select value={salesRep} onValueChange={setSalesRep}>
+          <SelectTrigger className="h-8 w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_REPS}>All reps</SelectItem>
+            {reps.map(rep => (
+              <SelectItem key={rep} value={rep}>{rep}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From date" className="h-8 text-xs" />
+        <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="To date" className="h-8 text-xs" />
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="px-2 text-xs text-muted-foreground">Completed analyses are saved here.</p>
+      ) : visible.length === 0 ? (
+        <p className="px-2 text-xs text-muted-foreground">No analyses match these filters.</p>
+      ) : (
+        <ul className="space-y-1">
+          {visible.map(entry => (
+            <li
+              key={entry.analysisId}
+              className={cn(
+                'group flex items-start gap-2 rounded-md px-2 py-1.5 hover:bg-gray-200 dark:hover:bg-gray-700',
+                entry.analysisId === activeId && 'bg-gray-200 dark:bg-gray-700'
+              )}
+            >
+              <button type="button" onClick={() => onOpen(entry)} className="flex-1 min-w-0 text-left">
+                <p className="truncate font-medium">{entry.metadata.prospectName}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {[entry.metadata.salesRep, callDateOf(entry).toLocaleDateString()].filter(Boolean).join(' · ')}
+                  {' · '}
+                  {entry.result.summary.overallQualificationScore}/100
+                </p>
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(entry)}
+                aria-label={`Delete analysis for ${entry.metadata.prospectName}`}
+                className="p-1 text-muted-foreground opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-600"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, useSyncExternalStore } from 'react';
+import { KeyRound, Lock, LockOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FrontendSecurity } from '@/lib/security';
+import { storageVault, type VaultStatus } from '@/lib/vault';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const SERVER_STATUS: VaultStatus = { locked: true, mode: null, hasPassphrase: false };
+
+export function SecureStoragePanel() {
+  const status = useSyncExternalStore(
+    listener => storageVault.subscribe(listener),
+    () => storageVault.status(),
+    () => SERVER_STATUS
+  );
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Secure storage operation failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUnlock = () => run(() => storageVault.unlock(passphrase));
+
+  const handleStartSession = () => run(() => storageVault.startSession());
+
+  const handleRotate = (next?: string) => {
+    if (next !== undefined && next.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    run(() => FrontendSecurity.secureStorage.rotateKey(next));
+  };
+
+  const needsUnlock = status.locked && status.hasPassphrase;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Secure Storage
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2 text-sm">
+          {status.locked ? <Lock className="h-4 w-4 text-yellow-600" /> : <LockOpen className="h-4 w-4 text-green-600" />}
+          <span>
+            {status.locked
+              ? needsUnlock ? 'Locked' : 'Locked; nothing is saved until a new session starts'
+              : status.mode === 'passphrase' ? 'Unlocked with passphrase' : 'Unlocked with session key'}
+          </span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Saved analyses and CRM sync logs are encrypted with AES-GCM. A session key is forgotten
+          when this tab closes; set a passphrase to keep data readable across visits.
+          Data that can&apos;t be decrypted is kept in case the right key is unlocked later, and can
+          be deleted from the History list.
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="vault-passphrase">{needsUnlock ? 'Passphrase' : 'New passphrase'}</Label>
+          <Input
+            id="vault-passphrase"
+            type="password"
+            autoComplete={needsUnlock ? 'current-password' : 'new-password'}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && passphrase && (needsUnlock ? handleUnlock() : handleRotate(passphrase))}
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          {needsUnlock ? (
+            <Button onClick={handleUnlock} disabled={busy || !passphrase}>
+              Unlock
+            </Button>
+          ) : (
+            <>
+              <Button onClick={() => handleRotate(passphrase)} disabled={busy || !passphrase}>
+                {status.hasPassphrase ? 'Change passphrase' : 'Set passphrase'}
+              </Button>
+              {status.locked ? (
+                <Button variant="outline" onClick={handleStartSession} disabled={busy}>
+                  Start new session
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => handleRotate()} disabled={busy}>
+                  {status.hasPassphrase ? 'Switch to session key' : 'Rotate session key'}
+                </Button>
+              )}
+            </>
+          )}
+          <Button variant="outline" onClick={() => FrontendSecurity.secureStorage.lock()} disabled={busy || status.locked}>
+            Lock
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CRM_MAPPING_PRESETS, CRM_OBJECT_TYPES, crmSourcesFor } from '@/lib/crm/mapping';
+import type { CrmFieldMapping, CrmMapping, CrmObjectMapping, CrmObjectType } from '@/lib/crm/types';
+
+function ObjectMappingEditor({
+  type,
+  label,
+  mapping,
+  onChange
+}: {
+  type: CrmObjectType;
+  label: string;
+  mapping: CrmObjectMapping;
+  onChange: (mapping: CrmObjectMapping) => void;
+}) {
+  const sources = crmSourcesFor(type);
+
+  const updateField = (index: number, patch: Partial<CrmFieldMapping>) => {
+    onChange({ ...mapping, fields: mapping.fields.map((field, i) => (i === index ? { ...field, ...patch } : field)) });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={mapping.enabled}
+            onChange={(e) => onChange({ ...mapping, enabled: e.target.checked })}
+            className="h-4 w-4 accent-primary"
+          />
+          {label}
+        </label>
+        <div className="ml-auto flex items-center gap-2">
+          <Label htmlFor={`crm-path-${type}`} className="text-xs text-muted-foreground">Path</Label>
+          <Input
+            id={`crm-path-${type}`}
+            value={mapping.path}
+            onChange={(e) => onChange({ ...mapping, path: e.target.value })}
+            className="h-8 w-40"
+          />
+        </div>
+      </div>
+
+      {mapping.enabled && (
+        <div className="space-y-2">
+          {mapping.fields.map((field, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={field.field}
+                onChange={(e) => updateField(index, { field: e.target.value })}
+                placeholder="CRM field"
+                aria-label="CRM field"
+                className="h-8 flex-1"
+              />
+              <span className="text-muted-foreground">←</span>
+              <Select value={field.source} onValueChange={(source) => updateField(index, { source })}>
+                <SelectTrigger className="h-8 flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sources.map(([id, source]) => (
+                    <SelectItem key={id} value={id}>{source.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange({ ...mapping, fields: mapping.fields.filter((_, i) => i !== index) })}
+                aria-label="Remove field"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...mapping, fields: [...mapping.fields, { field: '', source: sources[0][0] }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add field
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Which analysis values are written to which CRM fields. Validation happens
+ * in the settings panel along with the other settings.
+ */
+export function CrmMappingEditor({ mapping, onChange }: { mapping: CrmMapping; onChange: (mapping: CrmMapping) => void }) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle>CRM Field Mapping</CardTitle>
+        <Select
+          value=""
+          onValueChange={(preset) => onChange(CRM_MAPPING_PRESETS[preset as keyof typeof CRM_MAPPING_PRESETS].mapping)}
+        >
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue placeholder="Load preset" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CRM_MAPPING_PRESETS).map(([id, preset]) => (
+              <SelectItem key={id} value={id}>{preset.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Records are sent to the endpoint in <code>CRM_API_URL</code>. Task fields are filled once per action plan task.
+        </p>
+        {CRM_OBJECT_TYPES.map(({ type, label }) => (
+          <ObjectMappingEditor
+            key={type}
+            type={type}
+            label={label}
+            mapping={mapping[type]}
+            onChange={(objectMapping) => onChange({ ...mapping, [type]: objectMapping })}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
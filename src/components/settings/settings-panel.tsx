@@ -0,0 +1,381 @@
+import { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, RotateCcw, Upload, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getStage } from '@/lib/analysis/stages';
+import type { EngineSelection } from '@/lib/analysis/types';
+import { downloadFile } from '@/lib/export/download';
+import {
+  DEFAULT_SETTINGS,
+  describeRateLimit,
+  exportSettings,
+  importSettings,
+  validateSettings,
+  type AppSettings,
+  type BackendSettings,
+  type RateLimitSettings
+} from '@/lib/settings/settings';
+import { CrmMappingEditor } from './crm-mapping-editor';
+import { NumberField } from './number-field';
+
+const USER_NAME_PATTERN = /^[\w .@-]{1,40}$/;
+
+function StageOrderEditor({ order, onChange }: { order: number[]; onChange: (order: number[]) => void }) {
+  const move = (index: number, offset: number) => {
+    const next = [...order];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <ol className="space-y-2">
+      {order.map((prompt, index) => (
+        <li key={prompt} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+          <span className="w-6 text-muted-foreground">{index + 1}.</span>
+          <span className="flex-1">
+            {getStage(prompt).label} <span className="text-muted-foreground">(prompt {prompt})</span>
+          </span>
+          <Button variant="ghost" size="icon" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move up">
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => move(index, 1)}
+            disabled={index === order.length - 1}
+            aria-label="Move down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function RateLimitFields({
+  id,
+  limit,
+  onChange
+}: {
+  id: string;
+  limit: RateLimitSettings;
+  onChange: (limit: RateLimitSettings) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <NumberField
+        id={`${id}-requests`}
+        label="Requests"
+        value={limit.maxRequests}
+        onChange={(maxRequests) => onChange({ ...limit, maxRequests })}
+      />
+      <NumberField
+        id={`${id}-window`}
+        label="Per minutes"
+        step={0.5}
+        value={limit.windowMinutes}
+        onChange={(windowMinutes) => onChange({ ...limit, windowMinutes })}
+      />
+    </div>
+  );
+}
+
+/**
+ * Edits the active profile's settings. Changes are saved as soon as every
+ * field is valid; until then the problems are listed and nothing is saved.
+ */
+export function SettingsPanel({
+  settings,
+  user,
+  users,
+  onChange,
+  onSwitchUser
+}: {
+  settings: AppSettings;
+  user: string;
+  users: string[];
+  onChange: (settings: AppSettings) => void;
+  onSwitchUser: (user: string) => void;
+}) {
+  const [draft, setDraft] = useState(settings);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [newUser, setNewUser] = useState('');
+  const [importNote, setImportNote] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (next: AppSettings) => {
+    setDraft(next);
+    const validation = validateSettings(next);
+    setErrors(validation.valid ? [] : validation.errors);
+    if (validation.valid) onChange(validation.settings);
+  };
+
+  const updateBackend = (patch: Partial<BackendSettings>) => update({ ...draft, backend: { ...draft.backend, ...patch } });
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    const validation = importSettings(await file.text());
+    if (validation.valid) {
+      update(validation.settings);
+      setImportNote(`Imported settings from ${file.name}`);
+    } else {
+      setErrors(validation.errors);
+      setImportNote(null);
+    }
+  };
+
+  const trimmedUser = newUser.trim();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserRound className="h-5 w-5" />
+            Profile
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Settings are saved in this browser for each profile.
+          </p>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Active profile</Label>
+              <Select value={user} onValueChange={onSwitchUser}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-new-user">New profile</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="settings-new-user"
+                  value={newUser}
+                  onChange={(e) => setNewUser(e.target.value)}
+                  placeholder="e.g. jane.doe"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    onSwitchUser(trimmedUser);
+                    setNewUser('');
+                  }}
+                  disabled={!USER_NAME_PATTERN.test(trimmedUser) || users.includes(trimmedUser)}
+                >
+                  Create
+                </Button>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Analysis Backend</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Transport</Label>
+              <Select
+                value={draft.backend.transport}
+                onValueChange={(transport) => updateBackend({ transport: transport as BackendSettings['transport'] })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="server">Server default</SelectItem>
+                  <SelectItem value="http">Streamable HTTP</SelectItem>
+                  <SelectItem value="stdio">stdio (server process)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Engine</Label>
+              <Select value={draft.engine} onValueChange={(engine) => update({ ...draft, engine: engine as EngineSelection })}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto (model, heuristic fallback)</SelectItem>
+                  <SelectItem value="mcp">Model backend only</SelectItem>
+                  <SelectItem value="heuristic">Heuristic (offline)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {draft.backend.transport === 'http' && (
+            <div className="space-y-2">
+              <Label htmlFor="settings-backend-url">Endpoint URL</Label>
+              <Input
+                id="settings-backend-url"
+                value={draft.backend.url}
+                onChange={(e) => updateBackend({ url: e.target.value })}
+                placeholder="http://localhost:3001/mcp"
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            The server only connects to its own endpoint and those listed in <code>MCP_ALLOWED_URLS</code>.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pipeline Stage Order</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <StageOrderEditor order={draft.stageOrder} onChange={(stageOrder) => update({ ...draft, stageOrder })} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Thresholds</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Deal risk score (0-100)</p>
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField
+                id="settings-risk-medium"
+                label="Medium risk from"
+                value={draft.riskThresholds.medium}
+                onChange={(medium) => update({ ...draft, riskThresholds: { ...draft.riskThresholds, medium } })}
+              />
+              <NumberField
+                id="settings-risk-high"
+                label="High risk from"
+                value={draft.riskThresholds.high}
+                onChange={(high) => update({ ...draft, riskThresholds: { ...draft.riskThresholds, high } })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Investment readiness (qualification score)</p>
+            <div className="grid grid-cols-2 gap-3">
+              {(['medium', 'high'] as const).map(level => (
+                <NumberField
+                  key={level}
+                  id={`settings-readiness-${level}`}
+                  label={`${level === 'medium' ? 'Medium' : 'High'} readiness from`}
+                  value={draft.qualificationModel.readinessThresholds[level]}
+                  onChange={(value) =>
+                    update({
+                      ...draft,
+                      qualificationModel: {
+                        ...draft.qualificationModel,
+                        readinessThresholds: { ...draft.qualificationModel.readinessThresholds, [level]: value }
+                      }
+                    })
+                  }
+                />
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Factor weights are tuned under Qualification.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rate Limits</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Analysis requests</p>
+            <RateLimitFields
+              id="settings-analysis-limit"
+              limit={draft.rateLimits.analysis}
+              onChange={(analysis) => update({ ...draft, rateLimits: { ...draft.rateLimits, analysis } })}
+            />
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Other API requests</p>
+            <RateLimitFields
+              id="settings-api-limit"
+              limit={draft.rateLimits.api}
+              onChange={(api) => update({ ...draft, rateLimits: { ...draft.rateLimits, api } })}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            These pace this browser. The server limits analysis requests to{' '}
+            {describeRateLimit(DEFAULT_SETTINGS.rateLimits.analysis)} and CRM sync requests to{' '}
+            {describeRateLimit(DEFAULT_SETTINGS.rateLimits.api)}, so neither can be set any higher.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Data Retention</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="max-w-xs">
+            <NumberField
+              id="settings-retention"
+              label="Delete saved analyses after (days)"
+              value={draft.retentionDays}
+              onChange={(retentionDays) => update({ ...draft, retentionDays })}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">0 keeps analyses until you delete them.</p>
+        </CardContent>
+      </Card>
+
+      <CrmMappingEditor mapping={draft.crmMapping} onChange={(crmMapping) => update({ ...draft, crmMapping })} />
+
+      {errors.length > 0 && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-900 dark:bg-red-950 dark:text-red-200">
+          <p className="font-medium">Settings not saved:</p>
+          <ul className="list-disc pl-5">
+            {errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {importNote && <p className="text-sm text-green-700">{importNote}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={() => downloadFile(`goldira-settings-${user}.json`, exportSettings(draft), 'application/json')}>
+          <Download className="h-4 w-4 mr-1" />
+          Export JSON
+        </Button>
+        <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-1" />
+          Import JSON
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            handleImport(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+        <Button variant="outline" onClick={() => update(DEFAULT_SETTINGS)}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { AlertTriangle, Users } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ParsedTranscript, SpeakerMap, SpeakerRole } from '@/lib/transcript/types';
+
+const roleLabels: Record<SpeakerRole, string> = {
+  rep: 'Sales Rep',
+  prospect: 'Prospect',
+  other: 'Other',
+  unknown: 'Unassigned'
+};
+
+export function SpeakerMapping({
+  parsed,
+  onChange
+}: {
+  parsed: ParsedTranscript;
+  onChange: (speakerMap: SpeakerMap) => void;
+}) {
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Users className="h-4 w-4" />
+        Speakers ({parsed.turns.length} turns)
+      </div>
+
+      {parsed.ambiguous && (
+        <div className="flex items-start gap-2 text-sm text-yellow-700 dark:text-yellow-300">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>Some speaker labels could not be matched to a role. Assign each speaker before analyzing.</span>
+        </div>
+      )}
+
+      {parsed.speakers.map(speaker => {
+        const turns = parsed.turns.filter(turn => turn.speaker === speaker);
+        return (
+          <div key={speaker} className="grid grid-cols-[1fr_auto] items-center gap-3">
+            <div className="min-w-0">
+              <Label className="truncate">{speaker}</Label>
+              <p className="text-xs text-muted-foreground truncate">
+                {turns.length} turns · “{turns[0]?.text.slice(0, 60)}”
+              </p>
+            </div>
+            <Select
+              value={parsed.speakerMap[speaker]}
+              onValueChange={(role) => onChange({ [speaker]: role as SpeakerRole })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(roleLabels) as SpeakerRole[]).map(role => (
+                  <SelectItem key={role} value={role}>
+                    {roleLabels[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
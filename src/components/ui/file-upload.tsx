@@ -1,8 +1,9 @@
 import { cn } from "@/lib/utils";
 import React, { useRef, useState } from "react";
 import { motion } from "framer-motion";
-import { IconUpload } from "@tabler/icons-react";
+import { IconUpload, IconX } from "@tabler/icons-react";
 import { useDropzone } from "react-dropzone";
+import { FrontendSecurity, type FileValidationRules } from "@/lib/security";
 
 const mainVariant = {
   initial: {
@@ -25,17 +26,51 @@ const secondaryVariant = {
   },
 };
 
+type UploadEntry = {
+  file: File;
+  error?: string;
+};
+
+const acceptedEntries = (entries: UploadEntry[]) => entries.filter((entry) => !entry.error);
+
 export const FileUpload = ({
   onChange,
+  onRemove,
+  rules = FrontendSecurity.DEFAULT_FILE_RULES,
+  multiple = false,
 }: {
+  // Receives only the files that passed validation
   onChange?: (files: File[]) => void;
+  onRemove?: (file: File) => void;
+  rules?: FileValidationRules;
+  multiple?: boolean;
 }) => {
-  const [files, setFiles] = useState<File[]>([]);
+  const [entries, setEntries] = useState<UploadEntry[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (newFiles: File[]) => {
-    setFiles((prevFiles) => [...prevFiles, ...newFiles]);
-    onChange && onChange(newFiles);
+    if (!newFiles.length) return;
+    const checked = newFiles.map((file) => ({
+      file,
+      error: FrontendSecurity.validateFileUpload(file, rules).error,
+    }));
+    const accepted = checked.filter((entry) => !entry.error).map((entry) => entry.file);
+    setEntries((prev) => {
+      if (multiple) return [...prev, ...checked];
+      // In single-file mode only a valid selection replaces the accepted file
+      return accepted.length ? checked : [...acceptedEntries(prev), ...checked];
+    });
+    if (accepted.length) {
+      onChange?.(accepted);
+    }
+  };
+
+  const handleRemove = (index: number) => {
+    const entry = entries[index];
+    setEntries((prev) => prev.filter((_, idx) => idx !== index));
+    if (entry && !entry.error) {
+      onRemove?.(entry.file);
+    }
   };
 
   const handleClick = () => {
@@ -43,11 +78,17 @@ export const FileUpload = ({
   };
 
   const { getRootProps, isDragActive } = useDropzone({
-    multiple: false,
+    multiple,
     noClick: true,
-    onDrop: handleFileChange,
-    onDropRejected: (error) => {
-      console.log(error);
+    onDropAccepted: handleFileChange,
+    onDropRejected: (rejections) => {
+      setEntries((prev) => [
+        ...acceptedEntries(prev),
+        ...rejections.map(({ file }) => ({
+          file,
+          error: "Only one file can be uploaded at a time",
+        })),
+      ]);
     },
   });
 
@@ -62,7 +103,13 @@ export const FileUpload = ({
           ref={fileInputRef}
           id="file-upload-handle"
           type="file"
-          onChange={(e) => handleFileChange(Array.from(e.target.files || []))}
+          multiple={multiple}
+          accept={[...rules.allowedExtensions, ...rules.allowedTypes].join(",")}
+          onChange={(e) => {
+            handleFileChange(Array.from(e.target.files || []));
+            // Allow selecting the same file again after removing it
+            e.target.value = "";
+          }}
           className="hidden"
         />
         <div className="absolute inset-0 [mask-image:radial-gradient(ellipse_at_center,white,transparent)]">
@@ -76,14 +123,15 @@ export const FileUpload = ({
             Drag or drop your files here or click to upload
           </p>
           <div className="relative w-full mt-10 max-w-xl mx-auto">
-            {files.length > 0 &&
-              files.map((file, idx) => (
+            {entries.length > 0 &&
+              entries.map(({ file, error }, idx) => (
                 <motion.div
                   key={"file" + idx}
                   layoutId={idx === 0 ? "file-upload" : "file-upload-" + idx}
                   className={cn(
-                    "relative overflow-hidden z-40 bg-white dark:bg-neutral-900 flex flex-col items-start justify-start md:h-24 p-4 mt-4 w-full mx-auto rounded-md",
-                    "shadow-sm"
+                    "relative overflow-hidden z-40 bg-white dark:bg-neutral-900 flex flex-col items-start justify-start md:min-h-24 p-4 mt-4 w-full mx-auto rounded-md",
+                    "shadow-sm",
+                    error && "border border-red-500"
                   )}
                 >
                   <div className="flex justify-between w-full items-center gap-4">
@@ -103,6 +151,17 @@ export const FileUpload = ({
                     >
                       {(file.size / (1024 * 1024)).toFixed(2)} MB
                     </motion.p>
+                    <button
+                      type="button"
+                      aria-label={`Remove ${file.name}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRemove(idx);
+                      }}
+                      className="flex-shrink-0 rounded-md p-1 text-neutral-500 hover:bg-gray-100 hover:text-neutral-800 dark:hover:bg-neutral-800 dark:hover:text-white"
+                    >
+                      <IconX className="h-4 w-4" />
+                    </button>
                   </div>
 
                   <div className="flex text-sm md:flex-row flex-col items-start md:items-center w-full mt-2 justify-between text-neutral-600 dark:text-neutral-400">
@@ -112,7 +171,7 @@ export const FileUpload = ({
                       layout
                       className="px-1 py-0.5 rounded-md bg-gray-100 dark:bg-neutral-800 "
                     >
-                      {file.type}
+                      {file.type || "unknown type"}
                     </motion.p>
 
                     <motion.p
@@ -124,9 +183,15 @@ export const FileUpload = ({
                       {new Date(file.lastModified).toLocaleDateString()}
                     </motion.p>
                   </div>
+
+                  {error && (
+                    <p role="alert" className="mt-2 text-sm text-red-600">
+                      {error}
+                    </p>
+                  )}
                 </motion.div>
               ))}
-            {!files.length && (
+            {!entries.length && (
               <motion.div
                 layoutId="file-upload"
                 variants={mainVariant}
@@ -155,7 +220,7 @@ export const FileUpload = ({
               </motion.div>
             )}
 
-            {!files.length && (
+            {!entries.length && (
               <motion.div
                 variants={secondaryVariant}
                 className="absolute opacity-0 border border-dashed border-sky-400 inset-0 z-30 bg-transparent flex items-center justify-center h-32 mt-4 w-full max-w-[8rem] mx-auto rounded-md"
@@ -161,6 +161,7 @@ export const SidebarLink = ({
 }: {
   link: Links;
   className?: string;
+  onClick?: React.MouseEventHandler<HTMLAnchorElement>;
   props?: LinkProps;
 }) => {
   const { open, animate } = useSidebar();
@@ -0,0 +1,19 @@
+/**
+ * Server startup checks
+ *
+ * Next.js calls `register` once when the server starts.
+ */
+
+import { ANALYSIS_RATE_LIMIT } from '@/lib/security';
+
+export function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Without a trusted proxy the client address cannot be told apart from a
+  // spoofed X-Forwarded-For header, so the API routes limit all clients together
+  if (!(Number.parseInt(process.env.TRUSTED_PROXY_COUNT ?? '', 10) > 0)) {
+    console.warn(
+      `TRUSTED_PROXY_COUNT is not set: all clients share one analysis rate limit of ${ANALYSIS_RATE_LIMIT.maxRequests} requests per ${ANALYSIS_RATE_LIMIT.windowMs / 1000} seconds.`
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Browser client for the /api/analyze route
+ */
+
+import type { McpBackendSelection } from '@/lib/mcp/transports';
+import type { SpeakerMap } from '@/lib/transcript/types';
+import type { StageProgress } from './pipeline';
+import type { QualificationModel } from './qualification';
+import type { RiskThresholds } from './risk';
+import { parseAnalysisResult } from './schemas';
+import { readSseEvents } from './sse';
+import type { AnalysisResult, CallMetadata, EngineSelection } from './types';
+
+export class AnalysisRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'AnalysisRequestError';
+  }
+}
+
+export interface AnalysisRequestOptions {
+  // Re-run only these prompts, feeding `previousResults` forward
+  stages?: number[];
+  previousResults?: Partial<AnalysisResult['analyses']>;
+  engine?: EngineSelection;
+  speakerMap?: SpeakerMap;
+  qualificationModel?: QualificationModel;
+  riskThresholds?: RiskThresholds;
+  backend?: McpBackendSelection;
+  signal?: AbortSignal;
+}
+
+function requestBody(
+  transcript: string,
+  metadata: CallMetadata,
+  { stages, previousResults, engine, speakerMap, qualificationModel, riskThresholds, backend }: AnalysisRequestOptions
+) {
+  return JSON.stringify({
+    transcript,
+    metadata,
+    stages,
+    previousResults,
+    engine,
+    speakerMap,
+    qualificationModel,
+    riskThresholds,
+    backend
+  });
+}
+
+export async function requestAnalysis(
+  transcript: string,
+  metadata: CallMetadata,
+  options: AnalysisRequestOptions = {}
+): Promise<AnalysisResult> {
+  const response = await fetch('/api/analyze', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: requestBody(transcript, metadata, options),
+    signal: options.signal
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new AnalysisRequestError(body?.error ?? `Analysis failed (${response.status})`, response.status);
+  }
+
+  return parseAnalysisResult(body);
+}
+
+/**
+ * Request an analysis and receive per-stage progress as it runs
+ */
+export async function streamAnalysis(
+  transcript: string,
+  metadata: CallMetadata,
+  onStage: (stage: StageProgress) => void,
+  options: AnalysisRequestOptions = {}
+): Promise<AnalysisResult> {
+  const response = await fetch('/api/analyze', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: requestBody(transcript, metadata, options),
+    signal: options.signal
+  });
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new AnalysisRequestError(body?.error ?? `Analysis failed (${response.status})`, response.status);
+  }
+
+  let result: AnalysisResult | null = null;
+  let streamError: string | null = null;
+
+  await readSseEvents(response.body, event => {
+    if (event.type === 'stage') {
+      onStage(event.stage);
+    } else if (event.type === 'result') {
+      result = parseAnalysisResult(event.result);
+    } else {
+      streamError = event.error;
+    }
+  });
+
+  if (streamError || !result) {
+    throw new AnalysisRequestError(streamError ?? 'Analysis stream ended without a result', 502);
+  }
+
+  return result;
+}
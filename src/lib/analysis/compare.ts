@@ -0,0 +1,102 @@
+/**
+ * Compare two analysis results, e.g. a first call and its follow-up
+ *
+ * Deltas are always `after - before`. A value is null when the section it
+ * comes from is missing from either result.
+ */
+
+import type { AnalysisResult, ConversationScorecard, InvestmentReadiness, RiskLevel } from './types';
+
+export const SCORECARD_METRICS: { key: keyof ConversationScorecard; label: string }[] = [
+  { key: 'overallQuality', label: 'Overall Quality' },
+  { key: 'discovery', label: 'Discovery' },
+  { key: 'rapportBuilding', label: 'Rapport Building' },
+  { key: 'valuePresentation', label: 'Value Presentation' },
+  { key: 'objectionHandling', label: 'Objection Handling' },
+  { key: 'nextStepsClarity', label: 'Next Steps Clarity' }
+];
+
+export type LevelChange = 'improved' | 'worsened' | 'unchanged' | 'unknown';
+
+export interface ScoreDelta {
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+}
+
+export interface LevelDelta<T extends string> {
+  before: T | 'unknown';
+  after: T | 'unknown';
+  change: LevelChange;
+}
+
+export interface InsightDiff {
+  onlyBefore: string[];
+  onlyAfter: string[];
+  shared: string[];
+}
+
+export interface AnalysisComparison {
+  scorecard: ({ key: keyof ConversationScorecard; label: string } & ScoreDelta)[];
+  qualificationScore: ScoreDelta;
+  riskLevel: LevelDelta<RiskLevel>;
+  investmentReadiness: LevelDelta<InvestmentReadiness>;
+  insights: InsightDiff;
+}
+
+const LEVEL_RANK = { low: 0, medium: 1, high: 2 } as const;
+
+function scoreDelta(before: number | null | undefined, after: number | null | undefined): ScoreDelta {
+  const a = before ?? null;
+  const b = after ?? null;
+  return { before: a, after: b, delta: a === null || b === null ? null : b - a };
+}
+
+/**
+ * Risk improves when it goes down, readiness when it goes up
+ */
+function levelDelta<T extends keyof typeof LEVEL_RANK>(
+  before: T | 'unknown',
+  after: T | 'unknown',
+  higherIsBetter: boolean
+): LevelDelta<T> {
+  if (before === 'unknown' || after === 'unknown') return { before, after, change: 'unknown' };
+  const diff = LEVEL_RANK[after] - LEVEL_RANK[before];
+  const change: LevelChange = diff === 0 ? 'unchanged' : (diff > 0) === higherIsBetter ? 'improved' : 'worsened';
+  return { before, after, change };
+}
+
+// Insights are generated text, so match loosely on case, spacing and trailing punctuation
+function insightKey(insight: string): string {
+  return insight.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!]+$/, '');
+}
+
+export function diffInsights(before: string[], after: string[]): InsightDiff {
+  const beforeKeys = new Set(before.map(insightKey));
+  const afterKeys = new Set(after.map(insightKey));
+  return {
+    onlyBefore: before.filter(insight => !afterKeys.has(insightKey(insight))),
+    onlyAfter: after.filter(insight => !beforeKeys.has(insightKey(insight))),
+    shared: after.filter(insight => beforeKeys.has(insightKey(insight)))
+  };
+}
+
+export function compareAnalyses(before: AnalysisResult, after: AnalysisResult): AnalysisComparison {
+  const beforeScorecard = before.analyses.conversation?.conversationScorecard;
+  const afterScorecard = after.analyses.conversation?.conversationScorecard;
+
+  return {
+    scorecard: SCORECARD_METRICS.map(metric => ({
+      ...metric,
+      ...scoreDelta(beforeScorecard?.[metric.key], afterScorecard?.[metric.key])
+    })),
+    // Read from the section so a failed qualification stage isn't compared as 0
+    qualificationScore: scoreDelta(
+      before.analyses.qualification?.qualificationSummary.opportunityScore,
+      after.analyses.qualification?.qualificationSummary.opportunityScore
+    ),
+    riskLevel: levelDelta(before.summary.riskLevel, after.summary.riskLevel, false),
+    investmentReadiness: levelDelta(before.summary.investmentReadiness, after.summary.investmentReadiness, true),
+    insights: diffInsights(before.summary.keyInsights, after.summary.keyInsights)
+  };
+}
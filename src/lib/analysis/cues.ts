@@ -0,0 +1,63 @@
+/**
+ * Transcript cues shared by the heuristic engine and the conversation timeline
+ *
+ * Keeping them in one place means the timeline points at the same moments the
+ * heuristic scorecard counted.
+ */
+
+import type { TranscriptTurn } from '@/lib/transcript/types';
+
+export const OBJECTION_PATTERNS: { category: string; label: string; pattern: RegExp; action: string }[] = [
+  { category: 'storage', label: 'Storage / custody', pattern: /\b(storage|stored?|custod\w*|depository|vault)\b/i, action: 'Address gold storage and custody concerns' },
+  { category: 'fees', label: 'Fees', pattern: /\b(fees?|costs?|expensive|markup|premium)\b/i, action: 'Walk through the full fee schedule in writing' },
+  { category: 'liquidity', label: 'Liquidity', pattern: /\b(liquid\w*|sell it back|cash out|access (to )?my money)\b/i, action: 'Explain buyback and liquidation process' },
+  { category: 'advisor', label: 'Advisor says no', pattern: /\b(my (financial )?advisor|my planner|broker says)\b/i, action: 'Offer a call that includes the current advisor' },
+  { category: 'spouse_approval', label: 'Spouse approval', pattern: /\b(my (wife|husband|spouse)|talk to (my )?(wife|husband|spouse))\b/i, action: 'Schedule joint call with spouse' },
+  { category: 'scam_concern', label: 'Scam fears', pattern: /\b(scam|rip[- ]?off|too good to be true|legit\w*|trust you)\b/i, action: 'Share credentials, reviews and custodian references' }
+];
+
+export function objectionLabel(category: string): string {
+  return OBJECTION_PATTERNS.find(p => p.category === category)?.label ?? category.replace(/_/g, ' ');
+}
+
+export const RESOLUTION_CUES = /\b(understand|great question|let me explain|actually|insured|segregated|no fee|in writing|guarantee|buyback|happy to|absolutely)\b/i;
+export const COMMITMENT_CUES = /\b(i('| wi)ll (send|email|call|follow)|follow[- ]up|schedule|set up a (call|time)|next (week|call)|tomorrow|call you (back|on))\b/i;
+// Global patterns, for counting with String.match
+export const RAPPORT_CUES = /\b(thank you|thanks|appreciate|i understand|that makes sense|great to|how are you|congratulations)\b/gi;
+export const VALUE_CUES = /\b(inflation|diversif\w*|hedge|protect\w*|tangible|physical gold|wealth preservation|tax[- ]advantaged|rollover)\b/gi;
+
+export interface LocatedObjection {
+  category: string;
+  // Positions in the turns array
+  turnIndex: number;
+  replyIndex?: number;
+  resolved: boolean;
+  quote: string;
+}
+
+export function sentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * First mention of each objection category by someone other than the rep,
+ * and whether the rep's next turn dealt with it
+ */
+export function locateObjections(turns: TranscriptTurn[]): LocatedObjection[] {
+  const objections: LocatedObjection[] = [];
+
+  for (const { category, pattern } of OBJECTION_PATTERNS) {
+    const turnIndex = turns.findIndex(turn => turn.role !== 'rep' && pattern.test(turn.text));
+    if (turnIndex < 0) continue;
+
+    const quote = sentences(turns[turnIndex].text).find(sentence => pattern.test(sentence)) ?? turns[turnIndex].text;
+    // Resolved when the rep's next turn engages with the concern
+    const offset = turns.slice(turnIndex + 1).findIndex(turn => turn.role === 'rep');
+    const replyIndex = offset < 0 ? undefined : turnIndex + 1 + offset;
+    const reply = replyIndex === undefined ? undefined : turns[replyIndex];
+    const resolved = !!reply && (pattern.test(reply.text) || RESOLUTION_CUES.test(reply.text));
+    objections.push({ category, turnIndex, replyIndex, resolved, quote: quote.slice(0, 240) });
+  }
+
+  return objections;
+}
@@ -0,0 +1,53 @@
+/**
+ * Server-side engine selection
+ *
+ * Runs the MCP-backed pipeline or the heuristic engine, falling back to the
+ * heuristic engine in 'auto' mode when the MCP server cannot be reached.
+ */
+
+import { analyzeWithMcp } from '@/lib/mcp/client';
+import { createTransport, resolveMcpConfig } from '@/lib/mcp/node';
+import { analyzeHeuristically } from './heuristic';
+import type { PipelineOptions } from './pipeline';
+import type { AnalyzeRequest } from './request';
+import type { AnalysisResult } from './types';
+
+export async function runAnalysisWithEngine(
+  {
+    transcript,
+    metadata,
+    stages,
+    previousResults,
+    engine = 'auto',
+    speakerMap,
+    qualificationModel,
+    riskThresholds,
+    backend
+  }: AnalyzeRequest,
+  options: Pick<PipelineOptions, 'onEvent' | 'signal'> = {}
+): Promise<AnalysisResult> {
+  const pipelineOptions: PipelineOptions = {
+    ...options,
+    order: stages,
+    previousResults,
+    speakerMap,
+    qualificationModel,
+    riskThresholds
+  };
+
+  if (engine === 'heuristic') {
+    return analyzeHeuristically(transcript, metadata, pipelineOptions);
+  }
+
+  // A backend the server doesn't allow is an error, never a reason to fall back
+  const config = resolveMcpConfig(backend);
+  try {
+    return await analyzeWithMcp(() => createTransport(config), transcript, metadata, pipelineOptions);
+  } catch (error) {
+    if (engine === 'mcp' || options.signal?.aborted) {
+      throw error;
+    }
+    console.warn('MCP backend unavailable, falling back to heuristic engine:', error);
+    return analyzeHeuristically(transcript, metadata, pipelineOptions);
+  }
+}
@@ -0,0 +1,451 @@
+/**
+ * Offline rule-based analysis engine
+ *
+ * Produces a best-effort analysis from keyword and structure heuristics and
+ * the metadata form, without any model. Results are deterministic and are
+ * labelled as heuristic wherever they are shown.
+ */
+
+import { computeTalkMetrics, textForRole } from '@/lib/transcript/metrics';
+import type { TranscriptTurn } from '@/lib/transcript/types';
+import {
+  COMMITMENT_CUES,
+  locateObjections,
+  objectionLabel,
+  OBJECTION_PATTERNS,
+  RAPPORT_CUES,
+  RESOLUTION_CUES,
+  sentences,
+  VALUE_CUES
+} from './cues';
+import { runAnalysisPipeline, type PipelineOptions, type StageInput, type StageRunner } from './pipeline';
+import {
+  applyQualificationModel,
+  assessRollover,
+  DEFAULT_QUALIFICATION_MODEL,
+  QUALIFICATION_FACTORS,
+  type QualificationFactorId
+} from './qualification';
+import { RISK_FACTORS, riskLevelFor, type RiskFactorId } from './risk';
+import { tasksFromPlan } from './tasks';
+import type {
+  ActionPlanAnalysis,
+  AnalysisResult,
+  AnalysisSectionKey,
+  CallMetadata,
+  ConversationAnalysis,
+  DealRiskAnalysis,
+  Objection,
+  ObjectionsAnalysis,
+  PsychologyAnalysis,
+  QualificationAnalysis,
+  QualificationFactor,
+  QualificationStatus
+} from './types';
+
+const DISMISSIVE_CUES = /\b(don't worry|trust me|no big deal|everyone does|not a problem|doesn't matter)\b/i;
+
+const VAGUE_TIMELINE_CUES = /\b(not sure|someday|eventually|later|no rush|down the road|think about it|next year)\b/i;
+const DECISION_MAKER_CUES = /\b(talk (it over )?(to|with) my|run it by|check with my|discuss (it )?with my|my (wife|husband|spouse|advisor|accountant) (decides|handles|would have to))\b/i;
+const COMPLIANCE_CUES = /\b(guarantee\w* (a )?(return|profit|growth)|can('|no)t lose|risk[- ]free|no risk|double your money|always goes up)\b/i;
+const COMPETITOR_CUES = /\b(another company|other compan\w+|shopping around|other quotes?|goldco|augusta|birch gold|noble gold|american hartford|lear capital)\b/i;
+
+// A Gold IRA is the product being sold, not an account the prospect holds
+const ELIGIBLE_ACCOUNT_CUES = /(?<!gold )\b(401\s?\(?k\)?|403\s?\(?b\)?|457(\s?\(?b\)?)?|tsp|thrift savings plan|(traditional |roth |sep[- ]|simple )?ira|pension)(?!\w)/gi;
+const AMOUNT_CUES = /\$\s?\d[\d,]*(\.\d+)?\s*(k|m|thousand|million)?\b|\b(?!40[13]\s?k\b)\d[\d,]*(\.\d+)?\s*(k|thousand|million)\b/gi;
+const AGE_CUES = /\b(?:i'?m|i am) (\d{2})\b(?! (?:percent|%|thousand|k\b))|\b(\d{2}) years old\b/i;
+const URGENT_TIMEFRAME_CUES = /\b(now|right away|immediately|asap|soon as possible|this (week|month)|(within|in) (a|one|two|\d+) (days?|weeks?)|before the end of the (month|year))\b/i;
+// Required minimum distributions start at this age
+const RMD_AGE = 73;
+
+const PERSONALITY_CUES: Record<string, RegExp> = {
+  analytical: /\b(percent|%|numbers?|data|how does|exactly|compare|returns?|\d+)\b/gi,
+  amiable: /\b(family|kids|grandkids|feel|comfortable|trust|wife|husband)\b/gi,
+  driver: /\b(bottom line|quick(ly)?|just tell me|get (it )?done|decide now)\b/gi,
+  expressive: /\b(love|excited|amazing|worried|scared|hate)\b/gi
+};
+
+const COLLABORATIVE_CUES = /\b(wife|husband|spouse|we)\b/i;
+
+const EMOTIONAL_DRIVERS: { label: string; description: string; pattern: RegExp }[] = [
+  { label: 'Fear of inflation', description: 'Worried the dollar will keep losing purchasing power', pattern: /\b(inflation|cost of living|printing money|dollar('s)? (value|losing)|prices)\b/i },
+  { label: 'Legacy for family', description: 'Wants to leave something lasting for children or grandchildren', pattern: /\b(kids|children|grandkids|grandchildren|legacy|inherit\w*|leave (it|something) (to|for))\b/i },
+  { label: 'Market anxiety', description: 'Shaken by stock market swings or past losses', pattern: /\b(crash\w*|stock market|volatil\w*|2008|lost (money|a lot)|recession)\b/i },
+  { label: 'Need for security', description: 'Looking for safety and peace of mind in retirement', pattern: /\b(safe(ty)?|secure|security|peace of mind|sleep at night|protect\w*)\b/i },
+  { label: 'Distrust of institutions', description: 'Skeptical of banks, Wall Street or government policy', pattern: /\b(banks?|wall street|government|the fed|politicians)\b/i }
+];
+
+const TRUST_SIGNALS: { label: string; effect: 'builds' | 'erodes'; pattern: RegExp }[] = [
+  { label: 'Agreement and openness', effect: 'builds', pattern: /\b(makes sense|that helps|good to know|sounds good|i like (that|the)|appreciate)\b/i },
+  { label: 'Shares personal details', effect: 'builds', pattern: /\b(my (wife|husband|kids|daughter|son|health)|to be honest|between you and me)\b/i },
+  { label: 'Skepticism about the company', effect: 'erodes', pattern: /\b(scam|rip[- ]?off|too good to be true|legit\w*|how do i know)\b/i },
+  { label: 'Feels pressured', effect: 'erodes', pattern: /\b(pushy|pressure|sales pitch|slow down|not ready)\b/i }
+];
+
+const COMMUNICATION_STYLES: Record<string, { recommendation: string; tips: string[] }> = {
+  analytical: {
+    recommendation: 'Lead with data and written detail',
+    tips: ['Send the fee schedule and historical performance in writing', 'Give them time to compare options', 'Avoid hype and vague claims']
+  },
+  amiable: {
+    recommendation: 'Build the relationship and move at their pace',
+    tips: ['Involve family in the conversation', 'Reassure with references and testimonials', 'Avoid pressure or hard closes']
+  },
+  driver: {
+    recommendation: 'Be brief, direct and outcome-focused',
+    tips: ['Lead with the bottom line', 'Offer two or three clear options', 'Keep follow-ups short']
+  },
+  expressive: {
+    recommendation: 'Connect to their feelings and vision for retirement',
+    tips: ['Acknowledge worries before presenting facts', 'Use stories from similar clients', 'Paint a picture of the outcome they want']
+  },
+  undetermined: {
+    recommendation: 'Ask more open questions to learn how they decide',
+    tips: ['Ask what matters most in retirement', 'Ask who else is involved in the decision']
+  }
+};
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+/**
+ * Rate the rep's reply to an objection: did they engage with the topic,
+ * acknowledge it, check understanding and back it with specifics
+ */
+function rateResponse(pattern: RegExp, reply?: string): { score: number; feedback: string } {
+  if (!reply) return { score: 0, feedback: 'No response from the rep' };
+
+  const checks = [
+    { passed: pattern.test(reply), points: 30, tip: 'Address the concern directly' },
+    { passed: RESOLUTION_CUES.test(reply), points: 20, tip: 'Acknowledge the concern before answering' },
+    { passed: reply.includes('?'), points: 15, tip: 'Check the answer landed with a follow-up question' },
+    { passed: /(\$|\d|%|\bin writing\b)/i.test(reply), points: 15, tip: 'Back the answer with specifics' }
+  ];
+  const dismissive = DISMISSIVE_CUES.test(reply);
+  const score = clamp(20 + checks.reduce((sum, check) => sum + (check.passed ? check.points : 0), 0) - (dismissive ? 20 : 0));
+  const missed = checks.find(check => !check.passed);
+
+  return {
+    score,
+    feedback: dismissive ? 'Avoid brushing the concern off' : missed ? missed.tip : 'Strong, specific response'
+  };
+}
+
+function detectObjections(turns: TranscriptTurn[]): Objection[] {
+  return locateObjections(turns).map(({ category, turnIndex, replyIndex, resolved, quote }) => {
+    const pattern = OBJECTION_PATTERNS.find(p => p.category === category)!.pattern;
+    const reply = replyIndex === undefined ? undefined : turns[replyIndex].text;
+    const { score, feedback } = rateResponse(pattern, reply);
+    return {
+      category,
+      resolved,
+      quote,
+      turnIndex,
+      timestampMs: turns[turnIndex].startMs,
+      repResponse: reply?.slice(0, 400),
+      responseQuality: score,
+      responseFeedback: feedback
+    };
+  });
+}
+
+// Case, punctuation, spacing and a leading connective don't make a commitment new
+function commitmentKey(sentence: string): string {
+  return sentence
+    .toLowerCase()
+    .replace(/[^a-z0-9$%]+/g, ' ')
+    .trim()
+    .replace(/^(and|so|also|then|okay|ok)\s+/, '');
+}
+
+function detectCommitments(turns: TranscriptTurn[]): string[] {
+  const seen = new Set<string>();
+  return turns
+    .filter(turn => turn.role !== 'prospect')
+    .flatMap(turn => sentences(turn.text))
+    .filter(sentence => COMMITMENT_CUES.test(sentence))
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim().slice(0, 160))
+    .filter(sentence => {
+      const key = commitmentKey(sentence);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function analyzeConversation(turns: TranscriptTurn[]): ConversationAnalysis {
+  const repText = textForRole(turns, 'rep');
+  const { totalWords, repTalkRatio, repQuestions, prospectQuestions, interruptions } = computeTalkMetrics(turns);
+  const objections = detectObjections(turns);
+  const commitments = detectCommitments(turns);
+
+  // Reps should listen more than they talk; ideal share is roughly 40-55%
+  const talkPenalty = repTalkRatio > 55 ? (repTalkRatio - 55) * 1.5 : repTalkRatio < 30 ? (30 - repTalkRatio) : 0;
+  const scorecard = {
+    overallQuality: 0,
+    discovery: clamp(40 + repQuestions * 5 - talkPenalty - interruptions * 3),
+    rapportBuilding: clamp(50 + countMatches(repText, RAPPORT_CUES) * 6),
+    valuePresentation: clamp(45 + countMatches(repText, VALUE_CUES) * 7),
+    objectionHandling: objections.length
+      ? clamp(40 + (objections.filter(o => o.resolved).length / objections.length) * 55)
+      : 70,
+    nextStepsClarity: clamp(35 + commitments.length * 20)
+  };
+  const dimensions = Object.values(scorecard).slice(1);
+  scorecard.overallQuality = clamp(dimensions.reduce((sum, value) => sum + value, 0) / dimensions.length);
+
+  const keyInsights = [`Rep spoke ${repTalkRatio}% of the words and asked ${repQuestions} questions`];
+  if (repTalkRatio > 60) {
+    keyInsights.push('Rep dominated the conversation; more listening needed');
+  }
+
+  return {
+    conversationScorecard: scorecard,
+    metrics: { wordCount: totalWords, repTalkRatio, repQuestions, prospectQuestions, interruptions },
+    keyInsights
+  };
+}
+
+function quotesMatching(candidates: string[], pattern: RegExp, limit = 2): string[] {
+  return candidates.filter(sentence => sentence.match(pattern)).slice(0, limit).map(sentence => sentence.slice(0, 240));
+}
+
+function analyzePsychology(turns: TranscriptTurn[], metadata: CallMetadata): PsychologyAnalysis {
+  const prospectText = textForRole(turns, 'prospect') || turns.map(turn => turn.text).join(' ');
+  const prospectSentences = sentences(prospectText);
+  const ranked = Object.entries(PERSONALITY_CUES)
+    .map(([type, pattern]) => [type, countMatches(prospectText, pattern)] as const)
+    .sort((a, b) => b[1] - a[1]);
+  const total = ranked.reduce((sum, [, count]) => sum + count, 0);
+  const primary = total ? ranked[0][0] : 'undetermined';
+  const collaborative = COLLABORATIVE_CUES.test(prospectText) || !!metadata.familyMembers;
+
+  const emotionalDrivers = EMOTIONAL_DRIVERS
+    .map(driver => ({ label: driver.label, description: driver.description, quotes: quotesMatching(prospectSentences, driver.pattern) }))
+    .filter(driver => driver.quotes.length > 0);
+  const trustSignals = TRUST_SIGNALS
+    .map(signal => ({ label: signal.label, effect: signal.effect, quotes: quotesMatching(prospectSentences, signal.pattern) }))
+    .filter(signal => signal.quotes.length > 0);
+  const style = COMMUNICATION_STYLES[primary] ?? COMMUNICATION_STYLES.undetermined;
+
+  const keyInsights: string[] = [];
+  if (collaborative) keyInsights.push('Spouse or family likely involved in the decision');
+  if (trustSignals.some(signal => signal.effect === 'erodes')) keyInsights.push('Prospect voiced skepticism; credibility needs rebuilding');
+
+  return {
+    personalityType: {
+      primary,
+      secondary: total && ranked[1][1] > 0 ? ranked[1][0] : undefined,
+      // Keyword cues are weak evidence, so confidence is capped
+      confidence: total ? clamp(Math.min(60, 25 + (ranked[0][1] / total) * 50)) : 0,
+      quotes: total ? quotesMatching(prospectSentences, PERSONALITY_CUES[primary]) : []
+    },
+    decisionMakingStyle: collaborative ? 'collaborative' : 'independent',
+    decisionMakingQuotes: quotesMatching(prospectSentences, COLLABORATIVE_CUES),
+    emotionalDrivers,
+    trustSignals,
+    communicationStyle: {
+      ...style,
+      quotes: total ? quotesMatching(prospectSentences, PERSONALITY_CUES[primary], 1) : []
+    },
+    keyInsights
+  };
+}
+
+function assessDealRisk(turns: TranscriptTurn[], metadata: CallMetadata, previousResults: StageInput['previousResults']): DealRiskAnalysis {
+  const objections = (previousResults.objections as ObjectionsAnalysis | undefined)?.objections ?? detectObjections(turns);
+  const unresolved = objections.filter(objection => !objection.resolved);
+  const prospectSentences = turns.filter(turn => turn.role !== 'rep').flatMap(turn => sentences(turn.text));
+  const repSentences = turns.filter(turn => turn.role === 'rep').flatMap(turn => sentences(turn.text));
+  const hasCommitment = detectCommitments(turns).length > 0;
+
+  const vagueQuotes = quotesMatching(prospectSentences, VAGUE_TIMELINE_CUES);
+  const vagueTimeframe = !!metadata.timeframe && VAGUE_TIMELINE_CUES.test(metadata.timeframe);
+  const timelineEvidence = [
+    !metadata.timeframe ? 'No timeframe captured in the call details' : vagueTimeframe ? `Timeframe given as "${metadata.timeframe}"` : null,
+    ...vagueQuotes
+  ].filter((item): item is string => !!item);
+  const decisionQuotes = quotesMatching(prospectSentences, DECISION_MAKER_CUES);
+  const complianceQuotes = quotesMatching(repSentences, COMPLIANCE_CUES);
+  const competitorQuotes = quotesMatching([...prospectSentences, ...repSentences], COMPETITOR_CUES);
+
+  // How strongly each factor fired, 0-1, and what triggered it
+  const signals: Record<RiskFactorId, { severity: number; evidence: string[] }> = {
+    unresolved_objections: {
+      severity: Math.min(1, unresolved.length / 2),
+      evidence: unresolved.map(objection =>
+        objection.quote ? `${objectionLabel(objection.category)}: "${objection.quote}"` : objectionLabel(objection.category)
+      )
+    },
+    decision_maker_absent: { severity: decisionQuotes.length ? 1 : 0, evidence: decisionQuotes },
+    // A missing timeframe is weaker evidence than the prospect putting it off
+    timeline_vagueness: { severity: vagueQuotes.length || vagueTimeframe ? 1 : metadata.timeframe ? 0 : 0.5, evidence: timelineEvidence },
+    no_next_step: { severity: hasCommitment ? 0 : 1, evidence: hasCommitment ? [] : ['No follow-up or meeting was agreed on the call'] },
+    compliance_concerns: { severity: complianceQuotes.length ? 1 : 0, evidence: complianceQuotes },
+    competitor_mentioned: { severity: competitorQuotes.length ? 1 : 0, evidence: competitorQuotes }
+  };
+
+  const factors = RISK_FACTORS.map(({ id, label, weight }) => ({
+    id,
+    label,
+    weight,
+    contribution: Math.round(weight * signals[id].severity),
+    evidence: signals[id].evidence
+  }));
+  const riskScore = clamp(factors.reduce((sum, factor) => sum + factor.contribution, 0));
+  return { riskLevel: riskLevelFor(riskScore), riskScore, factors };
+}
+
+function createActionPlan(turns: TranscriptTurn[], metadata: CallMetadata, previousResults: StageInput['previousResults']): ActionPlanAnalysis {
+  const objections = (previousResults.objections as ObjectionsAnalysis | undefined)?.objections ?? detectObjections(turns);
+  const criticalActions = [...new Set(objections
+    .filter(objection => !objection.resolved)
+    .map(objection => OBJECTION_PATTERNS.find(p => p.category === objection.category)?.action)
+    .filter((action): action is string => !!action))];
+
+  const commitments = detectCommitments(turns);
+  const nextSteps = commitments.length ? commitments : ['Follow up within 24 hours', 'Agree a concrete next step with the prospect'];
+  return {
+    criticalActions,
+    nextSteps,
+    tasks: tasksFromPlan({ criticalActions, nextSteps }, metadata.salesRep || undefined)
+  };
+}
+
+function parseAmount(value: string): number {
+  const match = value.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k|m|thousand|million)?\b/i);
+  if (!match) return 0;
+  const unit = match[2]?.[0].toLowerCase();
+  const multiplier = unit === 'm' ? 1_000_000 : unit === 'k' || unit === 't' ? 1_000 : 1;
+  return Number(match[1]) * multiplier;
+}
+
+type FactorAssessment = Pick<QualificationFactor, 'status' | 'fulfillment' | 'detail' | 'evidence'>;
+
+function statusFor(fulfillment: number): QualificationStatus {
+  return fulfillment >= 0.75 ? 'met' : fulfillment >= 0.35 ? 'partial' : 'unmet';
+}
+
+function assessAccountTypes(metadata: CallMetadata, prospectSentences: string[]): FactorAssessment {
+  const evidence = quotesMatching(prospectSentences, ELIGIBLE_ACCOUNT_CUES);
+  const mentions = [...metadata.accountTypes, ...evidence].flatMap(text => text.match(ELIGIBLE_ACCOUNT_CUES) ?? []);
+  const eligible = mentions.filter((name, index) => mentions.findIndex(other => other.toLowerCase() === name.toLowerCase()) === index);
+  if (eligible.length) {
+    return { status: 'met', fulfillment: 1, detail: `Rollover-eligible accounts: ${eligible.join(', ')}`, evidence };
+  }
+  return metadata.accountTypes.length
+    ? { status: 'unmet', fulfillment: 0, detail: `None of the listed accounts (${metadata.accountTypes.join(', ')}) can be rolled over` }
+    : { status: 'unknown', fulfillment: 0, detail: 'Account types not captured' };
+}
+
+function assessAge(age: number | undefined): FactorAssessment {
+  if (!age) return { status: 'unknown', fulfillment: 0, detail: 'Age not captured; RMD timing unknown' };
+  if (age >= RMD_AGE) {
+    return { status: 'partial', fulfillment: 0.5, detail: `Age ${age}: RMDs apply, so the IRA needs cash or metal it can sell for distributions` };
+  }
+  if (age < 50) {
+    return { status: 'partial', fulfillment: 0.5, detail: `Age ${age}: long horizon, but withdrawals before 59½ are penalized` };
+  }
+  return { status: 'met', fulfillment: 1, detail: `Age ${age}: ${RMD_AGE - age} years before RMDs begin` };
+}
+
+function assessTimeframe(metadata: CallMetadata, prospectSentences: string[]): FactorAssessment {
+  const urgentQuotes = quotesMatching(prospectSentences, URGENT_TIMEFRAME_CUES);
+  const vagueQuotes = quotesMatching(prospectSentences, VAGUE_TIMELINE_CUES);
+  if (metadata.timeframe) {
+    if (URGENT_TIMEFRAME_CUES.test(metadata.timeframe)) {
+      return { status: 'met', fulfillment: 1, detail: `Wants to move ${metadata.timeframe}`, evidence: urgentQuotes };
+    }
+    return VAGUE_TIMELINE_CUES.test(metadata.timeframe)
+      ? { status: 'unmet', fulfillment: 0, detail: `Open-ended timeframe: "${metadata.timeframe}"`, evidence: vagueQuotes }
+      : { status: 'partial', fulfillment: 0.5, detail: `Timeframe: ${metadata.timeframe}` };
+  }
+  if (urgentQuotes.length) return { status: 'met', fulfillment: 1, detail: 'Prospect wants to move soon', evidence: urgentQuotes };
+  if (vagueQuotes.length) return { status: 'unmet', fulfillment: 0, detail: 'Prospect is putting the decision off', evidence: vagueQuotes };
+  return { status: 'unknown', fulfillment: 0, detail: 'Timeframe not discussed' };
+}
+
+function assessMotivation(metadata: CallMetadata, prospectSentences: string[]): FactorAssessment {
+  const interest: Record<string, number> = { 'ready-to-act': 0.8, considering: 0.55, researching: 0.3, undecided: 0.1 };
+  const drivers = EMOTIONAL_DRIVERS
+    .map(driver => ({ label: driver.label, quotes: quotesMatching(prospectSentences, driver.pattern, 1) }))
+    .filter(driver => driver.quotes.length > 0);
+  if (!(metadata.goldIRAInterest in interest) && !drivers.length) {
+    return { status: 'unknown', fulfillment: 0, detail: 'No interest level or buying motive captured' };
+  }
+
+  // Each emotional driver the prospect voiced strengthens the stated interest
+  const fulfillment = Math.min(1, Math.round(((interest[metadata.goldIRAInterest] ?? 0) + drivers.length * 0.15) * 100) / 100);
+  const detail = [
+    metadata.goldIRAInterest && `Interest: ${metadata.goldIRAInterest.replace(/-/g, ' ')}`,
+    drivers.length && `Drivers: ${drivers.map(driver => driver.label.toLowerCase()).join(', ')}`
+  ].filter(Boolean).join('; ');
+  return { status: statusFor(fulfillment), fulfillment, detail, evidence: [...new Set(drivers.flatMap(driver => driver.quotes))] };
+}
+
+function qualifyProspect(turns: TranscriptTurn[], metadata: CallMetadata, previousResults: StageInput['previousResults']): QualificationAnalysis {
+  const prospectSentences = turns.filter(turn => turn.role !== 'rep').flatMap(turn => sentences(turn.text));
+  const dealRisk = previousResults.dealRisk as DealRiskAnalysis | undefined;
+
+  // Call details take precedence over what the transcript suggests
+  const amountQuotes = quotesMatching(prospectSentences, AMOUNT_CUES);
+  const amount = parseAmount(metadata.accountValues) ||
+    Math.max(0, ...amountQuotes.flatMap(quote => quote.match(AMOUNT_CUES) ?? []).map(parseAmount));
+  const rolloverAmount = amount > 0 ? amount : undefined;
+  const statedAge = prospectSentences.map(sentence => sentence.match(AGE_CUES)).find(Boolean);
+  const age = Number(metadata.prospectAge) || Number(statedAge?.[1] ?? statedAge?.[2]) || undefined;
+  const decisionQuotes = quotesMatching(prospectSentences, DECISION_MAKER_CUES);
+
+  const assessments: Record<QualificationFactorId, FactorAssessment> = {
+    account_types: assessAccountTypes(metadata, prospectSentences),
+    rollover_amount: { ...assessRollover(rolloverAmount, DEFAULT_QUALIFICATION_MODEL.minimumRollover), evidence: amountQuotes },
+    age_rmd: assessAge(age),
+    decision_authority: decisionQuotes.length
+      ? { status: 'partial', fulfillment: 0.5, detail: 'Needs to involve someone else before deciding', evidence: decisionQuotes }
+      : { status: 'met', fulfillment: 1, detail: 'No one else was named in the decision' },
+    timeframe: assessTimeframe(metadata, prospectSentences),
+    motivation: assessMotivation(metadata, prospectSentences)
+  };
+  const factors = QUALIFICATION_FACTORS.map(({ id, label }) => ({ id, label, weight: 0, contribution: 0, ...assessments[id] }));
+
+  const keyInsights: string[] = [];
+  const missing = factors.filter(factor => factor.status === 'unknown').map(factor => factor.label);
+  if (missing.length) keyInsights.push(`Not captured: ${missing.join(', ')}; qualification is provisional`);
+  if (age && age >= RMD_AGE) keyInsights.push('Prospect is taking required minimum distributions');
+
+  const assessed: QualificationAnalysis = {
+    qualificationSummary: { opportunityScore: 0, investmentReadiness: 'low', recommendation: 'nurture' },
+    factors,
+    rolloverAmount,
+    keyInsights
+  };
+  return applyQualificationModel(assessed, DEFAULT_QUALIFICATION_MODEL, dealRisk?.riskLevel);
+}
+
+/**
+ * Stage runner for the pipeline; each prompt maps to one heuristic
+ */
+export const runHeuristicStage: StageRunner = async (stage, { metadata, turns, previousResults }) => {
+  const analyzers: Record<AnalysisSectionKey, () => unknown> = {
+    conversation: () => analyzeConversation(turns),
+    psychology: () => analyzePsychology(turns, metadata),
+    objections: (): ObjectionsAnalysis => ({ objections: detectObjections(turns) }),
+    dealRisk: () => assessDealRisk(turns, metadata, previousResults),
+    actionPlan: () => createActionPlan(turns, metadata, previousResults),
+    qualification: () => qualifyProspect(turns, metadata, previousResults)
+  };
+  return analyzers[stage.section]();
+};
+
+export function analyzeHeuristically(
+  transcript: string,
+  metadata: CallMetadata,
+  options: PipelineOptions = {}
+): Promise<AnalysisResult> {
+  return runAnalysisPipeline(runHeuristicStage, transcript, metadata, { ...options, engine: 'heuristic' });
+}
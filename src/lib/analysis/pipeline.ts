@@ -0,0 +1,158 @@
+/**
+ * Staged analysis pipeline
+ *
+ * Runs the analysis prompts in the configured order, reporting per-stage
+ * progress and feeding each completed section forward to later stages.
+ */
+
+import { parseTranscript } from '@/lib/transcript/parser';
+import type { SpeakerMap, TranscriptTurn } from '@/lib/transcript/types';
+import { applyQualificationModel, type QualificationModel } from './qualification';
+import { buildAnalysisResult } from './result';
+import { riskLevelFor, type RiskThresholds } from './risk';
+import { validateSection } from './schemas';
+import { DEFAULT_STAGE_ORDER, getStage, type AnalysisStage } from './stages';
+import type {
+  AnalysisEngine,
+  AnalysisResult,
+  AnalysisSectionKey,
+  CallMetadata,
+  DealRiskAnalysis,
+  QualificationAnalysis
+} from './types';
+
+export type StageStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface StageProgress {
+  prompt: number;
+  section: AnalysisSectionKey;
+  label: string;
+  status: StageStatus;
+  elapsedMs?: number;
+  error?: string;
+}
+
+export type PipelineEvent =
+  | { type: 'stage'; stage: StageProgress }
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; error: string };
+
+export interface StageInput {
+  transcript: string;
+  metadata: CallMetadata;
+  turns: TranscriptTurn[];
+  previousResults: Partial<Record<AnalysisSectionKey, unknown>>;
+}
+
+export type StageRunner = (stage: AnalysisStage, input: StageInput, signal?: AbortSignal) => Promise<unknown>;
+
+export interface PipelineOptions {
+  order?: readonly number[];
+  // Sections from an earlier run, fed forward when re-running a subset of stages
+  previousResults?: StageInput['previousResults'];
+  onEvent?: (event: PipelineEvent) => void;
+  signal?: AbortSignal;
+  engine?: AnalysisEngine;
+  // Manual speaker role assignments applied when parsing the transcript
+  speakerMap?: SpeakerMap;
+  // The team's qualification scoring model and risk thresholds, applied whichever engine ran
+  qualificationModel?: QualificationModel;
+  riskThresholds?: RiskThresholds;
+}
+
+/**
+ * Re-grade a validated section with the configured model and thresholds
+ */
+function applyScoring(
+  section: AnalysisSectionKey,
+  data: unknown,
+  previousResults: StageInput['previousResults'],
+  { qualificationModel, riskThresholds }: Pick<PipelineOptions, 'qualificationModel' | 'riskThresholds'>
+): unknown {
+  if (section === 'dealRisk' && riskThresholds) {
+    const dealRisk = data as DealRiskAnalysis;
+    return dealRisk.riskScore === undefined ? dealRisk : { ...dealRisk, riskLevel: riskLevelFor(dealRisk.riskScore, riskThresholds) };
+  }
+  if (section === 'qualification' && qualificationModel) {
+    const dealRisk = previousResults.dealRisk as DealRiskAnalysis | undefined;
+    return applyQualificationModel(data as QualificationAnalysis, qualificationModel, dealRisk?.riskLevel);
+  }
+  return data;
+}
+
+export function initialStageProgress(order: readonly number[] = DEFAULT_STAGE_ORDER): StageProgress[] {
+  return order.map(prompt => {
+    const { section, label } = getStage(prompt);
+    return { prompt, section, label, status: 'queued' };
+  });
+}
+
+/**
+ * Execute every stage in order. A failing stage is recorded in
+ * `sectionErrors` and the pipeline moves on so later stages still run.
+ * Aborting the signal stops the pipeline and rejects with an AbortError.
+ */
+export async function runAnalysisPipeline(
+  runStage: StageRunner,
+  transcript: string,
+  metadata: CallMetadata,
+  {
+    order = DEFAULT_STAGE_ORDER,
+    previousResults: seed = {},
+    onEvent,
+    signal,
+    engine = 'mcp',
+    speakerMap,
+    qualificationModel,
+    riskThresholds
+  }: PipelineOptions = {}
+): Promise<AnalysisResult> {
+  const startedAt = Date.now();
+  const { turns } = parseTranscript(transcript, { metadata, speakerMap });
+  const progress = initialStageProgress(order);
+  const previousResults: StageInput['previousResults'] = { ...seed };
+  const sectionErrors: AnalysisResult['sectionErrors'] = {};
+
+  const emit = (stage: StageProgress) => onEvent?.({ type: 'stage', stage: { ...stage } });
+  progress.forEach(emit);
+
+  for (const entry of progress) {
+    signal?.throwIfAborted();
+    const stage = getStage(entry.prompt);
+    const stageStartedAt = Date.now();
+    entry.status = 'running';
+    emit(entry);
+
+    try {
+      const output = await runStage(stage, { transcript, metadata, turns, previousResults: { ...previousResults } }, signal);
+      const validation = validateSection(stage.section, output);
+      if (!validation.valid) {
+        throw new Error(validation.error);
+      }
+      previousResults[stage.section] = applyScoring(stage.section, validation.data, previousResults, {
+        qualificationModel,
+        riskThresholds
+      });
+      entry.status = 'done';
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      entry.status = 'failed';
+      entry.error = error instanceof Error ? error.message : String(error);
+      sectionErrors[stage.section] = entry.error;
+    }
+
+    entry.elapsedMs = Date.now() - stageStartedAt;
+    emit(entry);
+  }
+
+  // Only the stages that ran belong in this result; seeded sections stay with the caller
+  const ranSections = Object.fromEntries(
+    progress.map(entry => [entry.section, previousResults[entry.section]])
+  );
+  const result = buildAnalysisResult(ranSections, startedAt, engine);
+  result.sectionErrors = sectionErrors;
+  onEvent?.({ type: 'result', result });
+  return result;
+}
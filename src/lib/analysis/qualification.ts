@@ -0,0 +1,171 @@
+/**
+ * Configurable qualification scoring model
+ *
+ * Backends assess how fully the prospect meets each criterion (0-1); the
+ * model's weights turn that into points out of 100, less a deduction for deal
+ * risk, and its thresholds map the score to investment readiness. Keeping the
+ * assessment separate from the weights lets the team re-tune the model and
+ * re-score saved analyses without re-running them.
+ */
+
+import { z } from 'zod';
+import type { InvestmentReadiness, QualificationAnalysis, QualificationFactor, QualificationStatus, RiskLevel } from './types';
+
+export type QualificationFactorId =
+  | 'account_types'
+  | 'rollover_amount'
+  | 'age_rmd'
+  | 'decision_authority'
+  | 'timeframe'
+  | 'motivation';
+
+export const QUALIFICATION_FACTORS: { id: QualificationFactorId; label: string }[] = [
+  { id: 'account_types', label: 'Eligible account types' },
+  { id: 'rollover_amount', label: 'Rollover amount' },
+  { id: 'age_rmd', label: 'Age / RMD considerations' },
+  { id: 'decision_authority', label: 'Decision authority' },
+  { id: 'timeframe', label: 'Timeframe' },
+  { id: 'motivation', label: 'Motivation' }
+];
+
+export interface QualificationModel {
+  // Relative importance of each factor, scaled so the weights add up to 100 points
+  weights: Record<QualificationFactorId, number>;
+  // Smallest rollover worth pursuing, in dollars
+  minimumRollover: number;
+  // Lowest score for each readiness level
+  readinessThresholds: { medium: number; high: number };
+  // Points deducted at each deal risk level
+  riskPenalty: Record<RiskLevel, number>;
+}
+
+export const DEFAULT_QUALIFICATION_MODEL: QualificationModel = {
+  weights: {
+    account_types: 15,
+    rollover_amount: 25,
+    age_rmd: 15,
+    decision_authority: 15,
+    timeframe: 15,
+    motivation: 15
+  },
+  minimumRollover: 50_000,
+  readinessThresholds: { medium: 55, high: 75 },
+  riskPenalty: { low: 0, medium: 8, high: 16 }
+};
+
+const points = z.number().min(0).max(100);
+
+export const qualificationModelSchema: z.ZodType<QualificationModel> = z
+  .object({
+    weights: z.object({
+      account_types: points,
+      rollover_amount: points,
+      age_rmd: points,
+      decision_authority: points,
+      timeframe: points,
+      motivation: points
+    }),
+    minimumRollover: z.number().min(0),
+    readinessThresholds: z.object({ medium: points, high: points }),
+    riskPenalty: z.object({ low: points, medium: points, high: points })
+  })
+  .refine(model => Object.values(model.weights).some(weight => weight > 0), 'At least one factor needs a weight')
+  .refine(
+    model => model.readinessThresholds.high >= model.readinessThresholds.medium,
+    'The high readiness threshold must not be below the medium one'
+  );
+
+export function readinessFor(score: number, thresholds = DEFAULT_QUALIFICATION_MODEL.readinessThresholds): InvestmentReadiness {
+  return score >= thresholds.high ? 'high' : score >= thresholds.medium ? 'medium' : 'low';
+}
+
+const RECOMMENDATIONS: Record<InvestmentReadiness, string> = {
+  high: 'proceed',
+  medium: 'proceed_cautiously',
+  low: 'nurture'
+};
+
+export function formatDollars(amount: number): string {
+  return `$${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+/**
+ * Rollover amount against the model's minimum; half credit from half the minimum
+ */
+export function assessRollover(
+  amount: number | undefined,
+  minimum: number
+): { status: QualificationStatus; fulfillment: number; detail: string } {
+  if (amount === undefined) {
+    return { status: 'unknown', fulfillment: 0, detail: 'Rollover amount not captured' };
+  }
+  if (amount >= minimum) {
+    return { status: 'met', fulfillment: 1, detail: `${formatDollars(amount)} meets the ${formatDollars(minimum)} minimum` };
+  }
+  return amount >= minimum / 2
+    ? { status: 'partial', fulfillment: 0.5, detail: `${formatDollars(amount)} is below the ${formatDollars(minimum)} minimum` }
+    : { status: 'unmet', fulfillment: 0, detail: `${formatDollars(amount)} is well below the ${formatDollars(minimum)} minimum` };
+}
+
+/**
+ * Whole percentages that add up to exactly 100 (all zero when nothing is
+ * weighted); the points lost to rounding go to the largest remainders
+ */
+function percentages(weights: number[]): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!total) return weights.map(() => 0);
+
+  const exact = weights.map(weight => (weight / total) * 100);
+  const result = exact.map(Math.floor);
+  const remainder = 100 - result.reduce((sum, value) => sum + value, 0);
+  exact
+    .map((value, i) => ({ i, fraction: value - result[i] }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .slice(0, remainder)
+    .forEach(({ i }) => result[i]++);
+  return result;
+}
+
+/**
+ * Score a qualification's factors with the given model. Analyses without a
+ * factor breakdown are returned unchanged.
+ */
+export function applyQualificationModel(
+  qualification: QualificationAnalysis,
+  model: QualificationModel,
+  riskLevel?: RiskLevel
+): QualificationAnalysis {
+  if (!qualification.factors?.length) return qualification;
+
+  const assessed = qualification.factors.map(factor =>
+    factor.id === 'rollover_amount' && qualification.rolloverAmount !== undefined
+      ? { ...factor, ...assessRollover(qualification.rolloverAmount, model.minimumRollover) }
+      : factor
+  );
+  // Factors the model doesn't know keep the weight the backend gave them
+  const weightOf = (factor: QualificationFactor) => model.weights[factor.id as QualificationFactorId] ?? factor.weight;
+  const weights = percentages(assessed.map(weightOf));
+
+  const factors = assessed.map((factor, i) => ({
+    ...factor,
+    weight: weights[i],
+    contribution: Math.round(weights[i] * factor.fulfillment)
+  }));
+  // Risk that wasn't assessed counts as medium
+  const riskAdjustment = model.riskPenalty[riskLevel ?? 'medium'];
+  const earned = factors.reduce((sum, factor) => sum + factor.contribution, 0);
+  const opportunityScore = Math.max(0, Math.min(100, earned - riskAdjustment));
+  const investmentReadiness = readinessFor(opportunityScore, model.readinessThresholds);
+
+  return {
+    ...qualification,
+    qualificationSummary: {
+      ...qualification.qualificationSummary,
+      opportunityScore,
+      investmentReadiness,
+      recommendation: RECOMMENDATIONS[investmentReadiness]
+    },
+    factors,
+    riskAdjustment
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * Server-side validation of analysis requests
+ *
+ * Mirrors the checks the browser runs so the route never trusts the client.
+ */
+
+import type { McpBackendSelection } from '@/lib/mcp/transports';
+import { FrontendSecurity } from '@/lib/security';
+import type { SpeakerMap, SpeakerRole } from '@/lib/transcript/types';
+import { qualificationModelSchema, type QualificationModel } from './qualification';
+import { riskThresholdsSchema, type RiskThresholds } from './risk';
+import { validateSection } from './schemas';
+import { ANALYSIS_STAGES } from './stages';
+import { EMPTY_METADATA, type AnalysisSectionKey, type CallMetadata, type EngineSelection } from './types';
+
+export interface AnalyzeRequest {
+  transcript: string;
+  metadata: CallMetadata;
+  // Subset of prompts to re-run; defaults to the full stage order
+  stages?: number[];
+  previousResults?: Partial<Record<AnalysisSectionKey, unknown>>;
+  engine?: EngineSelection;
+  speakerMap?: SpeakerMap;
+  qualificationModel?: QualificationModel;
+  riskThresholds?: RiskThresholds;
+  // Overrides the server's default MCP backend, when the server allows it
+  backend?: McpBackendSelection;
+}
+
+const SPEAKER_ROLES: readonly SpeakerRole[] = ['rep', 'prospect', 'other', 'unknown'];
+
+const ENGINE_SELECTIONS: readonly EngineSelection[] = ['auto', 'mcp', 'heuristic'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function sanitizeMetadata(raw: Record<string, unknown>): CallMetadata {
+  const metadata: CallMetadata = { ...EMPTY_METADATA, accountTypes: [] };
+
+  for (const key of Object.keys(EMPTY_METADATA) as (keyof CallMetadata)[]) {
+    const value = raw[key];
+    if (key === 'accountTypes') {
+      metadata.accountTypes = Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === 'string').map(item => FrontendSecurity.sanitizeInput(item))
+        : [];
+    } else if (key === 'previousContact') {
+      metadata.previousContact = value === true;
+    } else if (typeof value === 'string') {
+      metadata[key] = FrontendSecurity.sanitizeInput(value);
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Keep only well-formed sections supplied for feed-forward
+ */
+function sanitizePreviousResults(raw: Record<string, unknown>): AnalyzeRequest['previousResults'] {
+  const previousResults: AnalyzeRequest['previousResults'] = {};
+  for (const { section } of ANALYSIS_STAGES) {
+    const result = validateSection(section, raw[section]);
+    if (result.valid) {
+      previousResults[section] = result.data;
+    }
+  }
+  return previousResults;
+}
+
+/**
+ * Validate and normalize an incoming /api/analyze body
+ */
+export function validateAnalyzeRequest(body: unknown):
+  | { valid: true; request: AnalyzeRequest }
+  | { valid: false; error: string } {
+  if (!isRecord(body)) {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+
+  if (typeof body.transcript !== 'string') {
+    return { valid: false, error: 'Transcript must be a string' };
+  }
+
+  const transcriptCheck = FrontendSecurity.validateTranscript(body.transcript);
+  if (!transcriptCheck.valid) {
+    return { valid: false, error: transcriptCheck.error ?? 'Invalid transcript' };
+  }
+
+  if (!isRecord(body.metadata)) {
+    return { valid: false, error: 'Metadata must be an object' };
+  }
+
+  const metadata = sanitizeMetadata(body.metadata);
+  if (!metadata.prospectName) {
+    return { valid: false, error: 'Prospect name is required' };
+  }
+
+  const request: AnalyzeRequest = { transcript: body.transcript, metadata };
+
+  if (body.stages !== undefined) {
+    const prompts = ANALYSIS_STAGES.map(stage => stage.prompt);
+    if (
+      !Array.isArray(body.stages) ||
+      body.stages.length === 0 ||
+      !body.stages.every(stage => prompts.includes(stage)) ||
+      new Set(body.stages).size !== body.stages.length
+    ) {
+      return { valid: false, error: `Stages must be a non-empty list of distinct prompts ${prompts.join(', ')}` };
+    }
+    request.stages = body.stages;
+  }
+
+  if (body.previousResults !== undefined) {
+    if (!isRecord(body.previousResults)) {
+      return { valid: false, error: 'Previous results must be an object' };
+    }
+    request.previousResults = sanitizePreviousResults(body.previousResults);
+  }
+
+  if (body.engine !== undefined) {
+    if (!ENGINE_SELECTIONS.includes(body.engine as EngineSelection)) {
+      return { valid: false, error: `Engine must be one of: ${ENGINE_SELECTIONS.join(', ')}` };
+    }
+    request.engine = body.engine as EngineSelection;
+  }
+
+  if (body.speakerMap !== undefined) {
+    if (
+      !isRecord(body.speakerMap) ||
+      !Object.values(body.speakerMap).every(role => SPEAKER_ROLES.includes(role as SpeakerRole))
+    ) {
+      return { valid: false, error: `Speaker roles must be one of: ${SPEAKER_ROLES.join(', ')}` };
+    }
+    request.speakerMap = body.speakerMap as SpeakerMap;
+  }
+
+  if (body.qualificationModel !== undefined) {
+    const parsed = qualificationModelSchema.safeParse(body.qualificationModel);
+    if (!parsed.success) {
+      return { valid: false, error: `Invalid qualification model (${parsed.error.issues[0].message})` };
+    }
+    request.qualificationModel = parsed.data;
+  }
+
+  if (body.riskThresholds !== undefined) {
+    const parsed = riskThresholdsSchema.safeParse(body.riskThresholds);
+    if (!parsed.success) {
+      return { valid: false, error: `Invalid risk thresholds (${parsed.error.issues[0].message})` };
+    }
+    request.riskThresholds = parsed.data;
+  }
+
+  if (body.backend !== undefined) {
+    const backend = body.backend;
+    if (
+      !isRecord(backend) ||
+      (backend.transport !== 'http' && backend.transport !== 'stdio') ||
+      (backend.transport === 'http' && typeof backend.url !== 'string')
+    ) {
+      return { valid: false, error: 'Backend must use the http transport with a URL, or stdio' };
+    }
+    request.backend = backend.transport === 'http' ? { transport: 'http', url: backend.url as string } : { transport: 'stdio' };
+  }
+
+  return { valid: true, request };
+}
@@ -0,0 +1,89 @@
+/**
+ * Assemble an AnalysisResult from the individual section outputs
+ */
+
+import { validateSections } from './schemas';
+import type { AnalysisEngine, AnalysisResult, AnalysisSectionKey } from './types';
+
+export function createAnalysisId(): string {
+  return 'analysis-' + crypto.randomUUID();
+}
+
+/**
+ * Derive the summary from whichever sections came back well-formed
+ */
+export function summarizeAnalyses(analyses: AnalysisResult['analyses']): AnalysisResult['summary'] {
+  const { conversation, psychology, dealRisk, actionPlan, qualification } = analyses;
+
+  return {
+    overallQualificationScore: qualification?.qualificationSummary.opportunityScore ?? 0,
+    investmentReadiness: qualification?.qualificationSummary.investmentReadiness ?? 'unknown',
+    keyInsights: [
+      ...(conversation?.keyInsights ?? []),
+      ...(psychology?.keyInsights ?? []),
+      ...(qualification?.keyInsights ?? [])
+    ],
+    criticalActions: actionPlan?.criticalActions ?? [],
+    riskLevel: dealRisk?.riskLevel ?? 'unknown',
+    recommendedNextSteps: actionPlan?.nextSteps ?? []
+  };
+}
+
+/**
+ * Validate raw section payloads and build the combined result
+ */
+export function buildAnalysisResult(
+  rawSections: Partial<Record<AnalysisSectionKey, unknown>>,
+  startedAt: number,
+  engine: AnalysisEngine = 'mcp'
+): AnalysisResult {
+  const { analyses, sectionErrors } = validateSections(rawSections);
+
+  return {
+    analysisId: createAnalysisId(),
+    timestamp: new Date().toISOString(),
+    processingTime: Date.now() - startedAt,
+    engine,
+    analyses,
+    sectionErrors,
+    summary: summarizeAnalyses(analyses)
+  };
+}
+
+function copySection<K extends AnalysisSectionKey>(
+  target: AnalysisResult['analyses'],
+  source: AnalysisResult['analyses'],
+  section: K
+): void {
+  target[section] = source[section];
+}
+
+/**
+ * Replace the given sections of `base` with those from a partial re-run,
+ * keeping every other section as it was
+ */
+export function mergeSectionResults(
+  base: AnalysisResult,
+  update: AnalysisResult,
+  sections: readonly AnalysisSectionKey[]
+): AnalysisResult {
+  const analyses = { ...base.analyses };
+  const sectionErrors = { ...base.sectionErrors };
+
+  for (const section of sections) {
+    copySection(analyses, update.analyses, section);
+    if (update.sectionErrors[section]) {
+      sectionErrors[section] = update.sectionErrors[section];
+    } else {
+      delete sectionErrors[section];
+    }
+  }
+
+  return {
+    ...base,
+    processingTime: base.processingTime + update.processingTime,
+    analyses,
+    sectionErrors,
+    summary: summarizeAnalyses(analyses)
+  };
+}
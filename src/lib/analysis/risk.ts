@@ -0,0 +1,42 @@
+/**
+ * Weighted deal risk model
+ *
+ * Each factor adds up to `weight` points to a 0-100 risk score, scaled by how
+ * strongly it was triggered. The weights sum to 100.
+ */
+
+import { z } from 'zod';
+import type { RiskLevel } from './types';
+
+export type RiskFactorId =
+  | 'unresolved_objections'
+  | 'decision_maker_absent'
+  | 'timeline_vagueness'
+  | 'no_next_step'
+  | 'compliance_concerns'
+  | 'competitor_mentioned';
+
+export const RISK_FACTORS: { id: RiskFactorId; label: string; weight: number }[] = [
+  { id: 'unresolved_objections', label: 'Unresolved objections', weight: 25 },
+  { id: 'decision_maker_absent', label: 'Decision-maker absent', weight: 20 },
+  { id: 'timeline_vagueness', label: 'Vague timeline', weight: 15 },
+  { id: 'no_next_step', label: 'No committed next step', weight: 15 },
+  { id: 'compliance_concerns', label: 'Compliance concerns', weight: 15 },
+  { id: 'competitor_mentioned', label: 'Competitor mentioned', weight: 10 }
+];
+
+export interface RiskThresholds {
+  medium: number;
+  high: number;
+}
+
+// Lowest risk score for each level
+export const RISK_THRESHOLDS: RiskThresholds = { medium: 20, high: 45 };
+
+export const riskThresholdsSchema: z.ZodType<RiskThresholds> = z
+  .object({ medium: z.number().min(0).max(100), high: z.number().min(0).max(100) })
+  .refine(thresholds => thresholds.high >= thresholds.medium, 'The high risk threshold must not be below the medium one');
+
+export function riskLevelFor(score: number, thresholds = RISK_THRESHOLDS): RiskLevel {
+  return score >= thresholds.high ? 'high' : score >= thresholds.medium ? 'medium' : 'low';
+}
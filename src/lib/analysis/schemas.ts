@@ -0,0 +1,244 @@
+/**
+ * Runtime validation for analysis backend responses
+ *
+ * Each section is validated independently so one malformed section is
+ * reported on its own instead of failing the whole analysis.
+ */
+
+import { z } from 'zod';
+import type {
+  ActionPlanAnalysis,
+  AnalysisResult,
+  AnalysisSectionKey,
+  AnalysisSections,
+  ConversationAnalysis,
+  DealRiskAnalysis,
+  ObjectionsAnalysis,
+  PsychologyAnalysis,
+  QualificationAnalysis
+} from './types';
+
+const score = z.number().min(0).max(100);
+const level = z.enum(['low', 'medium', 'high']);
+const insights = z.array(z.string()).optional();
+
+const conversationSchema: z.ZodType<ConversationAnalysis> = z.looseObject({
+  conversationScorecard: z.object({
+    overallQuality: score,
+    discovery: score,
+    rapportBuilding: score,
+    valuePresentation: score,
+    objectionHandling: score,
+    nextStepsClarity: score
+  }),
+  metrics: z
+    .object({
+      wordCount: z.number(),
+      repTalkRatio: score,
+      repQuestions: z.number(),
+      prospectQuestions: z.number(),
+      interruptions: z.number().optional()
+    })
+    .optional(),
+  keyInsights: insights
+});
+
+const quotes = z.array(z.string()).optional();
+
+const psychologySignal = {
+  label: z.string(),
+  description: z.string().optional(),
+  quotes
+};
+
+const psychologySchema: z.ZodType<PsychologyAnalysis> = z.looseObject({
+  personalityType: z.object({
+    primary: z.string(),
+    secondary: z.string().optional(),
+    confidence: score,
+    quotes
+  }),
+  decisionMakingStyle: z.string().optional(),
+  decisionMakingQuotes: quotes,
+  emotionalDrivers: z.array(z.looseObject(psychologySignal)).optional(),
+  trustSignals: z.array(z.looseObject({ ...psychologySignal, effect: z.enum(['builds', 'erodes']) })).optional(),
+  communicationStyle: z
+    .looseObject({
+      recommendation: z.string(),
+      tips: z.array(z.string()).optional(),
+      quotes
+    })
+    .optional(),
+  keyInsights: insights
+});
+
+const objectionsSchema: z.ZodType<ObjectionsAnalysis> = z.looseObject({
+  objections: z.array(
+    z.looseObject({
+      category: z.string(),
+      resolved: z.boolean(),
+      quote: z.string().optional(),
+      turnIndex: z.number().int().min(0).optional(),
+      timestampMs: z.number().min(0).optional(),
+      repResponse: z.string().optional(),
+      responseQuality: score.optional(),
+      responseFeedback: z.string().optional()
+    })
+  )
+});
+
+const dealRiskSchema: z.ZodType<DealRiskAnalysis> = z.looseObject({
+  riskLevel: level,
+  riskScore: score.optional(),
+  factors: z
+    .array(
+      z.looseObject({
+        id: z.string(),
+        label: z.string(),
+        weight: score,
+        contribution: score,
+        evidence: z.array(z.string())
+      })
+    )
+    .optional()
+});
+
+const actionPlanSchema: z.ZodType<ActionPlanAnalysis> = z.looseObject({
+  criticalActions: z.array(z.string()),
+  nextSteps: z.array(z.string()),
+  tasks: z
+    .array(
+      z.looseObject({
+        id: z.string(),
+        title: z.string(),
+        owner: z.string(),
+        dueText: z.string().optional(),
+        dueAt: z.iso.datetime({ offset: true }).optional(),
+        priority: level,
+        status: z.enum(['open', 'done']).default('open')
+      })
+    )
+    .optional()
+});
+
+const qualificationSchema: z.ZodType<QualificationAnalysis> = z.looseObject({
+  qualificationSummary: z.looseObject({
+    opportunityScore: score,
+    investmentReadiness: level,
+    recommendation: z.string()
+  }),
+  factors: z
+    .array(
+      z.looseObject({
+        id: z.string(),
+        label: z.string(),
+        status: z.enum(['met', 'partial', 'unmet', 'unknown']),
+        fulfillment: z.number().min(0).max(1),
+        weight: z.number().min(0),
+        contribution: z.number().min(0),
+        detail: z.string(),
+        evidence: quotes
+      })
+    )
+    .optional(),
+  rolloverAmount: z.number().min(0).optional(),
+  riskAdjustment: z.number().min(0).optional(),
+  keyInsights: insights
+});
+
+export const sectionSchemas: { [K in AnalysisSectionKey]: z.ZodType<AnalysisSections[K]> } = {
+  conversation: conversationSchema,
+  psychology: psychologySchema,
+  objections: objectionsSchema,
+  dealRisk: dealRiskSchema,
+  actionPlan: actionPlanSchema,
+  qualification: qualificationSchema
+};
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Validate a single section payload returned by the backend
+ */
+export function validateSection<K extends AnalysisSectionKey>(
+  section: K,
+  data: unknown
+): { valid: true; data: AnalysisSections[K] } | { valid: false; error: string } {
+  if (data === undefined || data === null) {
+    return { valid: false, error: 'Section missing from analysis response' };
+  }
+
+  const parsed = sectionSchemas[section].safeParse(data);
+  if (!parsed.success) {
+    return { valid: false, error: `Malformed ${section} analysis (${formatIssues(parsed.error)})` };
+  }
+
+  return { valid: true, data: parsed.data };
+}
+
+/**
+ * Validate every section, collecting per-section errors
+ */
+export function validateSections(raw: Partial<Record<AnalysisSectionKey, unknown>>): {
+  analyses: AnalysisResult['analyses'];
+  sectionErrors: AnalysisResult['sectionErrors'];
+} {
+  const analyses: Record<string, unknown> = {};
+  const sectionErrors: AnalysisResult['sectionErrors'] = {};
+
+  for (const section of Object.keys(sectionSchemas) as AnalysisSectionKey[]) {
+    const result = validateSection(section, raw[section]);
+    analyses[section] = result.valid ? result.data : null;
+    if (!result.valid) {
+      sectionErrors[section] = result.error;
+    }
+  }
+
+  return { analyses: analyses as AnalysisResult['analyses'], sectionErrors };
+}
+
+const summarySchema = z.object({
+  overallQualificationScore: z.number(),
+  investmentReadiness: z.enum(['low', 'medium', 'high', 'unknown']),
+  keyInsights: z.array(z.string()),
+  criticalActions: z.array(z.string()),
+  riskLevel: z.enum(['low', 'medium', 'high', 'unknown']),
+  recommendedNextSteps: z.array(z.string())
+});
+
+const resultEnvelopeSchema = z.object({
+  analysisId: z.string(),
+  timestamp: z.string(),
+  processingTime: z.number(),
+  engine: z.enum(['mcp', 'heuristic']).default('mcp'),
+  analyses: z.record(z.string(), z.unknown()),
+  sectionErrors: z.record(z.string(), z.string()).optional(),
+  summary: summarySchema
+});
+
+/**
+ * Validate a complete AnalysisResult, e.g. as received from /api/analyze
+ */
+export function parseAnalysisResult(data: unknown): AnalysisResult {
+  const envelope = resultEnvelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    throw new Error(`Malformed analysis response (${formatIssues(envelope.error)})`);
+  }
+
+  const { analyses, sectionErrors } = validateSections(envelope.data.analyses);
+
+  // Keep the backend's own error message for sections it already flagged
+  for (const section of Object.keys(sectionErrors) as AnalysisSectionKey[]) {
+    const reported = envelope.data.sectionErrors?.[section];
+    if (reported) {
+      sectionErrors[section] = reported;
+    }
+  }
+
+  return { ...envelope.data, analyses, sectionErrors };
+}
@@ -0,0 +1,52 @@
+/**
+ * Server-sent event encoding for pipeline progress
+ *
+ * The analyze route streams over a POST response, so the browser reads the
+ * body with fetch rather than EventSource (which only supports GET).
+ */
+
+import type { PipelineEvent } from './pipeline';
+
+export function formatSseEvent(event: PipelineEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read a text/event-stream body, invoking `onEvent` for each parsed event
+ */
+export async function readSseEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: PipelineEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (chunk: string) => {
+    const data = chunk
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+    if (data) {
+      onEvent(JSON.parse(data) as PipelineEvent);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) {
+    flush(buffer);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Analysis stage definitions
+ *
+ * Each stage maps one of the six numbered analysis prompts to the MCP tool
+ * that runs it and the section of `AnalysisResult.analyses` it fills.
+ */
+
+import type { AnalysisSectionKey } from './types';
+
+export interface AnalysisStage {
+  prompt: number;
+  section: AnalysisSectionKey;
+  tool: string;
+  label: string;
+}
+
+export const ANALYSIS_STAGES: readonly AnalysisStage[] = [
+  { prompt: 1, section: 'qualification', tool: 'qualify_prospect', label: 'Qualification' },
+  { prompt: 2, section: 'conversation', tool: 'analyze_conversation', label: 'Conversation' },
+  { prompt: 3, section: 'psychology', tool: 'analyze_psychology', label: 'Psychology' },
+  { prompt: 4, section: 'objections', tool: 'analyze_objections', label: 'Objections' },
+  { prompt: 5, section: 'dealRisk', tool: 'assess_deal_risk', label: 'Deal Risk' },
+  { prompt: 6, section: 'actionPlan', tool: 'create_action_plan', label: 'Action Plan' }
+];
+
+// Qualification (prompt 1) runs last so it can weigh every other section
+export const DEFAULT_STAGE_ORDER: readonly number[] = [2, 3, 4, 5, 6, 1];
+
+export function getStage(prompt: number): AnalysisStage {
+  const stage = ANALYSIS_STAGES.find(s => s.prompt === prompt);
+  if (!stage) {
+    throw new Error(`Unknown analysis prompt: ${prompt}`);
+  }
+  return stage;
+}
+
+export function formatStageOrder(order: readonly number[] = DEFAULT_STAGE_ORDER): string {
+  return order.join('→');
+}
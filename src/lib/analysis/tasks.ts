@@ -0,0 +1,97 @@
+/**
+ * Action plan tasks
+ *
+ * Backends may return structured tasks or only the plain action lists; either
+ * way tasks get an owner, a priority and a due date resolved against the time
+ * of the call.
+ */
+
+import type { ActionPlanAnalysis, ActionTask, CallMetadata } from './types';
+
+export const DEFAULT_TASK_OWNER = 'Sales rep';
+// Critical actions with no stated deadline are due this soon
+const CRITICAL_DUE_TEXT = 'within 2 days';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DUE_PATTERN = new RegExp(
+  `\\b(within (a|an|one|\\d+) (hours?|days?|weeks?)|in (a|an|one|\\d+) (hours?|days?|weeks?)|today|tonight|tomorrow|next week|this week|end of (the )?week|(by |on |next )?(${WEEKDAYS.join('|')}))\\b`,
+  'i'
+);
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * When the call took place: the call date from the metadata, falling back to
+ * when it was analyzed for calls without one (and analyses saved before it
+ * was recorded)
+ */
+export function callTimeOf(metadata: Partial<Pick<CallMetadata, 'callDateTime'>> | undefined, analyzedAt: string): Date {
+  const callTime = metadata?.callDateTime ? new Date(metadata.callDateTime) : null;
+  return callTime && !Number.isNaN(callTime.getTime()) ? callTime : new Date(analyzedAt);
+}
+
+/**
+ * The deadline phrase in an action, e.g. "within 24 hours"
+ */
+export function extractDueText(text: string): string | undefined {
+  return text.match(DUE_PATTERN)?.[0].toLowerCase();
+}
+
+function atTime(date: Date, hours: number): Date {
+  const result = new Date(date);
+  result.setHours(hours, 0, 0, 0);
+  return result;
+}
+
+/**
+ * Turn a deadline phrase into a date relative to the call. Day-level
+ * deadlines fall at 9:00 (morning follow-ups) or 17:00 (end of day).
+ */
+export function resolveDueDate(dueText: string, callTime: Date): Date | null {
+  const text = dueText.toLowerCase();
+
+  const relative = text.match(/\b(?:within|in) (a|an|one|\d+) (hour|day|week)s?\b/);
+  if (relative) {
+    const amount = /^\d+$/.test(relative[1]) ? Number(relative[1]) : 1;
+    const unit = relative[2] === 'hour' ? HOUR : relative[2] === 'day' ? DAY : 7 * DAY;
+    return new Date(callTime.getTime() + amount * unit);
+  }
+  if (/\b(today|tonight)\b/.test(text)) return atTime(callTime, 17);
+  if (/\btomorrow\b/.test(text)) return atTime(new Date(callTime.getTime() + DAY), 9);
+  if (/\bnext week\b/.test(text)) return atTime(new Date(callTime.getTime() + 7 * DAY), 9);
+
+  const weekday = WEEKDAYS.findIndex(day => text.includes(day));
+  const target = weekday >= 0 ? weekday : /\b(this week|end of (the )?week)\b/.test(text) ? 5 : -1;
+  if (target >= 0) {
+    // The next such day after the call; "next monday" on a Monday means a week later
+    const days = (target - callTime.getDay() + 7) % 7 || 7;
+    return atTime(new Date(callTime.getTime() + days * DAY), 17);
+  }
+  return null;
+}
+
+/**
+ * Tasks for a plan that only has the plain action lists
+ */
+export function tasksFromPlan(plan: Pick<ActionPlanAnalysis, 'criticalActions' | 'nextSteps'>, owner = DEFAULT_TASK_OWNER): ActionTask[] {
+  return [
+    ...plan.criticalActions.map(title => ({
+      title,
+      priority: 'high' as const,
+      dueText: extractDueText(title) ?? CRITICAL_DUE_TEXT
+    })),
+    ...plan.nextSteps.map(title => ({ title, priority: 'medium' as const, dueText: extractDueText(title) }))
+  ].map((task, index) => ({ id: `task-${index + 1}`, owner, status: 'open', ...task }));
+}
+
+/**
+ * The plan's tasks with due dates filled in from their deadline phrases
+ */
+export function resolveActionTasks(plan: ActionPlanAnalysis, callTime: Date, owner?: string): ActionTask[] {
+  return (plan.tasks ?? tasksFromPlan(plan, owner || undefined)).map(task => {
+    if (task.dueAt || !task.dueText) return task;
+    const due = resolveDueDate(task.dueText, callTime);
+    return due ? { ...task, dueAt: due.toISOString() } : task;
+  });
+}
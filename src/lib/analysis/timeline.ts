@@ -0,0 +1,239 @@
+/**
+ * Turn-by-turn view of a call for the Conversation section
+ *
+ * Everything here is derived from the parsed transcript with the same cues
+ * the heuristic engine scores with, so it works for model results too: the
+ * moments show where a scorecard dimension was likely earned or lost.
+ */
+
+import { computeTalkMetrics, countQuestions, countWords, CUT_OFF } from '@/lib/transcript/metrics';
+import type { SpeakerRole, TranscriptTurn } from '@/lib/transcript/types';
+import { SCORECARD_METRICS } from './compare';
+import { COMMITMENT_CUES, locateObjections, RAPPORT_CUES, VALUE_CUES } from './cues';
+import type { ConversationScorecard } from './types';
+
+export type ScorecardDimension = Exclude<keyof ConversationScorecard, 'overallQuality'>;
+
+// Overall quality is a roll-up, so no single moment earns or loses it
+export const SCORECARD_DIMENSIONS = SCORECARD_METRICS.filter(
+  (metric): metric is { key: ScorecardDimension; label: string } => metric.key !== 'overallQuality'
+);
+
+export const SENTIMENT_SEGMENTS = 5;
+// Rep turns longer than this count as pitching without checking in
+const MONOLOGUE_WORDS = 120;
+
+const POSITIVE_WORDS = /\b(good|great|glad|happy|like|love|helpful|makes sense|interested|perfect|excellent|comfortable|sure|thanks?|thank you|appreciate|excited|yes)\b/gi;
+const NEGATIVE_WORDS = /\b(worr\w*|concern\w*|afraid|scared|not sure|expensive|scam|bad|hate|lost|risk\w*|problem|no|don't|can't|won't|nervous|confus\w*|pressure)\b/gi;
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface SpeakerTalkTime {
+  speaker: string;
+  role: SpeakerRole;
+  turns: number;
+  words: number;
+  questions: number;
+  durationMs?: number;
+  // Share of the call, 0-100, by duration when every turn is timed, else by words
+  share: number;
+}
+
+export interface Monologue {
+  speaker: string;
+  role: SpeakerRole;
+  startTurn: number;
+  endTurn: number;
+  words: number;
+  durationMs?: number;
+}
+
+export interface SentimentSegment {
+  startTurn: number;
+  endTurn: number;
+  startMs?: number;
+  // -100 (negative) to 100 (positive); null when no sentiment words were found
+  score: number | null;
+  label: SentimentLabel;
+}
+
+export interface ScorecardMoment {
+  // Position in the turns array
+  turnIndex: number;
+  dimension: ScorecardDimension;
+  effect: 'earned' | 'lost';
+  reason: string;
+}
+
+export interface ConversationTimeline {
+  turns: TranscriptTurn[];
+  speakers: SpeakerTalkTime[];
+  shareBasis: 'duration' | 'words';
+  longestMonologue: Monologue | null;
+  repQuestions: number;
+  prospectQuestions: number;
+  // Sentiment of each turn, aligned with `turns`
+  turnSentiment: (number | null)[];
+  segments: SentimentSegment[];
+  moments: ScorecardMoment[];
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+function sentimentScore(texts: string[]): number | null {
+  const text = texts.join(' ');
+  const positive = countMatches(text, POSITIVE_WORDS);
+  const negative = countMatches(text, NEGATIVE_WORDS);
+  return positive + negative ? Math.round(((positive - negative) / (positive + negative)) * 100) : null;
+}
+
+function sentimentLabel(score: number | null): SentimentLabel {
+  return score === null || Math.abs(score) < 20 ? 'neutral' : score > 0 ? 'positive' : 'negative';
+}
+
+function turnDuration(turn: TranscriptTurn): number | undefined {
+  return turn.startMs !== undefined && turn.endMs !== undefined ? Math.max(0, turn.endMs - turn.startMs) : undefined;
+}
+
+function talkTimeBySpeaker(turns: TranscriptTurn[]): { speakers: SpeakerTalkTime[]; shareBasis: ConversationTimeline['shareBasis'] } {
+  const timed = turns.length > 0 && turns.every(turn => turnDuration(turn) !== undefined);
+  const bySpeaker = new Map<string, SpeakerTalkTime>();
+
+  for (const turn of turns) {
+    const entry = bySpeaker.get(turn.speaker) ?? { speaker: turn.speaker, role: turn.role, turns: 0, words: 0, questions: 0, share: 0 };
+    entry.turns++;
+    entry.words += countWords(turn.text);
+    entry.questions += countQuestions(turn.text);
+    if (timed) entry.durationMs = (entry.durationMs ?? 0) + (turnDuration(turn) ?? 0);
+    bySpeaker.set(turn.speaker, entry);
+  }
+
+  const speakers = [...bySpeaker.values()];
+  const total = speakers.reduce((sum, speaker) => sum + (timed ? speaker.durationMs ?? 0 : speaker.words), 0);
+  for (const speaker of speakers) {
+    speaker.share = total ? Math.round(((timed ? speaker.durationMs ?? 0 : speaker.words) / total) * 100) : 0;
+  }
+  return { speakers, shareBasis: timed ? 'duration' : 'words' };
+}
+
+/**
+ * Longest run of consecutive turns by one speaker, by words
+ */
+function findLongestMonologue(turns: TranscriptTurn[]): Monologue | null {
+  let longest: Monologue | null = null;
+  let start = 0;
+
+  for (let i = 0; i <= turns.length; i++) {
+    if (i < turns.length && turns[i].speaker === turns[start].speaker) continue;
+    if (i > start) {
+      const run = turns.slice(start, i);
+      const words = run.reduce((sum, turn) => sum + countWords(turn.text), 0);
+      if (!longest || words > longest.words) {
+        const first = run[0];
+        const last = run[run.length - 1];
+        longest = {
+          speaker: first.speaker,
+          role: first.role,
+          startTurn: start,
+          endTurn: i - 1,
+          words,
+          durationMs: first.startMs !== undefined && last.endMs !== undefined ? last.endMs - first.startMs : undefined
+        };
+      }
+    }
+    start = i;
+  }
+  return longest;
+}
+
+/**
+ * Split the call into segments of roughly equal word count and score the
+ * prospect's sentiment in each (everyone's when no prospect is identified)
+ */
+function sentimentSegments(turns: TranscriptTurn[]): SentimentSegment[] {
+  if (turns.length === 0) return [];
+  const hasProspect = turns.some(turn => turn.role === 'prospect');
+  const totalWords = turns.reduce((sum, turn) => sum + countWords(turn.text), 0);
+  const target = Math.max(1, totalWords / SENTIMENT_SEGMENTS);
+
+  const segments: SentimentSegment[] = [];
+  let start = 0;
+  let words = 0;
+  turns.forEach((turn, i) => {
+    words += countWords(turn.text);
+    const isLast = i === turns.length - 1;
+    if (!isLast && (words < target * (segments.length + 1) || segments.length === SENTIMENT_SEGMENTS - 1)) return;
+
+    const slice = turns.slice(start, i + 1).filter(t => !hasProspect || t.role === 'prospect');
+    const score = sentimentScore(slice.map(t => t.text));
+    segments.push({ startTurn: start, endTurn: i, startMs: turns[start].startMs, score, label: sentimentLabel(score) });
+    start = i + 1;
+  });
+  return segments;
+}
+
+function firstMatch(text: string, pattern: RegExp): string | undefined {
+  return text.match(pattern)?.[0];
+}
+
+function detectMoments(turns: TranscriptTurn[]): ScorecardMoment[] {
+  const moments: ScorecardMoment[] = [];
+  let committed = false;
+
+  turns.forEach((turn, turnIndex) => {
+    const add = (dimension: ScorecardDimension, effect: ScorecardMoment['effect'], reason: string) =>
+      moments.push({ turnIndex, dimension, effect, reason });
+    const previous = turns[turnIndex - 1];
+
+    if (turn.role === 'rep') {
+      const questions = countQuestions(turn.text);
+      if (questions > 0) add('discovery', 'earned', `Asked ${questions} ${questions === 1 ? 'question' : 'questions'}`);
+      if (countWords(turn.text) > MONOLOGUE_WORDS) add('discovery', 'lost', 'Long pitch without checking in');
+
+      const rapport = firstMatch(turn.text, RAPPORT_CUES);
+      if (rapport) add('rapportBuilding', 'earned', `Acknowledged the prospect ("${rapport}")`);
+      if (previous && previous.role === 'prospect' && CUT_OFF.test(previous.text)) {
+        add('rapportBuilding', 'lost', 'Interrupted the prospect');
+      }
+
+      const value = firstMatch(turn.text, VALUE_CUES);
+      if (value) add('valuePresentation', 'earned', `Made the case for gold ("${value}")`);
+    }
+
+    if (turn.role !== 'prospect' && COMMITMENT_CUES.test(turn.text)) {
+      committed = true;
+      add('nextStepsClarity', 'earned', 'Set a concrete next step');
+    }
+  });
+
+  for (const objection of locateObjections(turns)) {
+    const label = objection.category.replace(/_/g, ' ');
+    moments.push(
+      objection.resolved
+        ? { turnIndex: objection.replyIndex ?? objection.turnIndex, dimension: 'objectionHandling', effect: 'earned', reason: `Addressed the ${label} objection` }
+        : { turnIndex: objection.turnIndex, dimension: 'objectionHandling', effect: 'lost', reason: `Left the ${label} objection unanswered` }
+    );
+  }
+
+  if (!committed && turns.length > 0) {
+    moments.push({ turnIndex: turns.length - 1, dimension: 'nextStepsClarity', effect: 'lost', reason: 'Call ended without a concrete next step' });
+  }
+
+  return moments.sort((a, b) => a.turnIndex - b.turnIndex);
+}
+
+export function buildConversationTimeline(turns: TranscriptTurn[]): ConversationTimeline {
+  const { repQuestions, prospectQuestions } = computeTalkMetrics(turns);
+  return {
+    turns,
+    ...talkTimeBySpeaker(turns),
+    longestMonologue: findLongestMonologue(turns),
+    repQuestions,
+    prospectQuestions,
+    turnSentiment: turns.map(turn => sentimentScore([turn.text])),
+    segments: sentimentSegments(turns),
+    moments: detectMoments(turns)
+  };
+}
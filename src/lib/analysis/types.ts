@@ -0,0 +1,220 @@
+/**
+ * Shared analysis types for the Gold IRA sales analysis interface
+ */
+
+export interface CallMetadata {
+  prospectName: string;
+  prospectAge: string;
+  retirementStatus: string;
+  accountTypes: string[];
+  accountValues: string;
+  familyMembers: string;
+  investmentExperience: string;
+  goldIRAInterest: string;
+  currentConcerns: string;
+  timeframe: string;
+  duration: string;
+  // Local date and time of the call as 'YYYY-MM-DDTHH:mm'; empty when unknown
+  callDateTime: string;
+  salesRep: string;
+  callPurpose: string;
+  previousContact: boolean;
+  // The prospect's ID for CRM records, e.g. their CRM contact ID or email;
+  // empty gives each call its own contact and opportunity
+  crmProspectId: string;
+}
+
+// 'mcp' is the model-backed server; 'heuristic' is the offline rule-based engine
+export type AnalysisEngine = 'mcp' | 'heuristic';
+// 'auto' uses the MCP server and falls back to the heuristic engine when it is down
+export type EngineSelection = AnalysisEngine | 'auto';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type InvestmentReadiness = 'low' | 'medium' | 'high';
+
+export interface ConversationScorecard {
+  overallQuality: number;
+  discovery: number;
+  rapportBuilding: number;
+  valuePresentation: number;
+  objectionHandling: number;
+  nextStepsClarity: number;
+}
+
+export interface ConversationMetrics {
+  wordCount: number;
+  // Share of words spoken by the rep, 0-100
+  repTalkRatio: number;
+  repQuestions: number;
+  prospectQuestions: number;
+  interruptions?: number;
+}
+
+export interface ConversationAnalysis {
+  conversationScorecard: ConversationScorecard;
+  metrics?: ConversationMetrics;
+  keyInsights?: string[];
+}
+
+// A psychological read on the prospect, backed by what they actually said
+export interface PsychologySignal {
+  label: string;
+  description?: string;
+  quotes?: string[];
+}
+
+export interface TrustSignal extends PsychologySignal {
+  // Whether the moment built trust or revealed skepticism
+  effect: 'builds' | 'erodes';
+}
+
+export interface PsychologyAnalysis {
+  personalityType: {
+    primary: string;
+    secondary?: string;
+    confidence: number;
+    quotes?: string[];
+  };
+  decisionMakingStyle?: string;
+  decisionMakingQuotes?: string[];
+  // e.g. fear of inflation, leaving a legacy for family
+  emotionalDrivers?: PsychologySignal[];
+  trustSignals?: TrustSignal[];
+  communicationStyle?: {
+    recommendation: string;
+    tips?: string[];
+    quotes?: string[];
+  };
+  keyInsights?: string[];
+}
+
+export interface Objection {
+  category: string;
+  resolved: boolean;
+  quote?: string;
+  // Where it was raised: position in the parsed turns, and call time when known
+  turnIndex?: number;
+  timestampMs?: number;
+  repResponse?: string;
+  // How well the rep's response handled it, 0-100
+  responseQuality?: number;
+  responseFeedback?: string;
+}
+
+export interface ObjectionsAnalysis {
+  objections: Objection[];
+}
+
+export interface RiskFactor {
+  id: string;
+  label: string;
+  // Most points this factor can add to the 0-100 risk score
+  weight: number;
+  // Points it actually added, 0 when not triggered
+  contribution: number;
+  evidence: string[];
+}
+
+export interface DealRiskAnalysis {
+  riskLevel: RiskLevel;
+  riskScore?: number;
+  factors?: RiskFactor[];
+}
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+export type TaskStatus = 'open' | 'done';
+
+export interface ActionTask {
+  id: string;
+  title: string;
+  owner: string;
+  // Deadline as stated, e.g. "within 24 hours"; resolved against the call time
+  dueText?: string;
+  // ISO timestamp
+  dueAt?: string;
+  priority: TaskPriority;
+  status: TaskStatus;
+}
+
+export interface ActionPlanAnalysis {
+  criticalActions: string[];
+  nextSteps: string[];
+  tasks?: ActionTask[];
+}
+
+export type QualificationStatus = 'met' | 'partial' | 'unmet' | 'unknown';
+
+export interface QualificationFactor {
+  id: string;
+  label: string;
+  status: QualificationStatus;
+  // How fully the prospect meets the criterion, 0-1
+  fulfillment: number;
+  // Weight in the scoring model, and the points it earned
+  weight: number;
+  contribution: number;
+  detail: string;
+  evidence?: string[];
+}
+
+export interface QualificationAnalysis {
+  qualificationSummary: {
+    opportunityScore: number;
+    investmentReadiness: InvestmentReadiness;
+    recommendation: string;
+  };
+  factors?: QualificationFactor[];
+  // Dollars available to roll over, when known; compared with the model's minimum
+  rolloverAmount?: number;
+  // Points deducted for deal risk
+  riskAdjustment?: number;
+  keyInsights?: string[];
+}
+
+export interface AnalysisSections {
+  conversation: ConversationAnalysis;
+  psychology: PsychologyAnalysis;
+  objections: ObjectionsAnalysis;
+  dealRisk: DealRiskAnalysis;
+  actionPlan: ActionPlanAnalysis;
+  qualification: QualificationAnalysis;
+}
+
+export type AnalysisSectionKey = keyof AnalysisSections;
+
+export interface AnalysisResult {
+  analysisId: string;
+  timestamp: string;
+  processingTime: number;
+  engine: AnalysisEngine;
+  // A section is null when the backend omitted it or returned malformed data
+  analyses: { [K in AnalysisSectionKey]: AnalysisSections[K] | null };
+  sectionErrors: Partial<Record<AnalysisSectionKey, string>>;
+  summary: {
+    overallQualificationScore: number;
+    investmentReadiness: InvestmentReadiness | 'unknown';
+    keyInsights: string[];
+    criticalActions: string[];
+    riskLevel: RiskLevel | 'unknown';
+    recommendedNextSteps: string[];
+  };
+}
+
+export const EMPTY_METADATA: CallMetadata = {
+  prospectName: '',
+  prospectAge: '',
+  retirementStatus: '',
+  accountTypes: [],
+  accountValues: '',
+  familyMembers: '',
+  investmentExperience: '',
+  goldIRAInterest: '',
+  currentConcerns: '',
+  timeframe: '',
+  duration: '',
+  callDateTime: '',
+  salesRep: '',
+  callPurpose: '',
+  previousContact: false,
+  crmProspectId: ''
+};
@@ -0,0 +1,183 @@
+/**
+ * Batch analysis queue
+ *
+ * Runs many transcripts through the analysis with bounded concurrency,
+ * pausing whenever the client-side rate limiter is exhausted.
+ */
+
+import type { AnalysisResult, CallMetadata, RiskLevel } from '@/lib/analysis/types';
+import { parseTranscript } from '@/lib/transcript/parser';
+import type { ParsedTranscript, SpeakerMap } from '@/lib/transcript/types';
+
+export type BatchItemStatus =
+  | 'loading'
+  | 'invalid'
+  | 'ready'
+  | 'queued'
+  | 'rate_limited'
+  | 'running'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  transcript: string;
+  metadata: CallMetadata;
+  // Roles assigned by hand to speakers the parser could not match
+  speakerMap: SpeakerMap;
+  status: BatchItemStatus;
+  stagesDone: number;
+  stageCount: number;
+  // Epoch ms at which a rate-limited item will be retried
+  resumeAt?: number;
+  error?: string;
+  result?: AnalysisResult;
+}
+
+export interface RateLimiter {
+  checkLimit(): { allowed: boolean; resetTime?: number };
+}
+
+export interface BatchRunOptions {
+  concurrency: number;
+  rateLimiter: RateLimiter;
+  analyze: (item: BatchItem, signal: AbortSignal) => Promise<AnalysisResult>;
+  onUpdate: (id: string, update: Partial<BatchItem>) => void;
+  signal?: AbortSignal;
+}
+
+export const BATCH_CONCURRENCY_OPTIONS = [1, 2, 3] as const;
+
+/**
+ * Items that can be (re)submitted by the next run
+ */
+export function isRunnable(item: BatchItem): boolean {
+  return item.status === 'ready' || item.status === 'failed' || item.status === 'cancelled';
+}
+
+/**
+ * The item's transcript with roles applied; ambiguous items must have their
+ * speakers assigned before they can run, as for a single analysis
+ */
+export function parseBatchItem(item: BatchItem): ParsedTranscript {
+  return parseTranscript(item.transcript, { metadata: item.metadata, speakerMap: item.speakerMap });
+}
+
+/**
+ * Prospect name guessed from a file name like "2024-05-01_jane-doe.vtt"
+ */
+export function prospectFromFileName(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .replace(/\d{4}-\d{2}-\d{2}/g, '')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Call date from a file name like "2024-05-01_jane-doe.vtt", as a
+ * datetime-local value at the start of that day; empty when there is none
+ */
+export function callDateFromFileName(fileName: string): string {
+  const date = fileName.match(/\d{4}-\d{2}-\d{2}/)?.[0];
+  return date ? `${date}T00:00` : '';
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run every item, at most `concurrency` at a time. Item outcomes are
+ * reported through `onUpdate`; the returned promise only settles once all
+ * workers are idle and never rejects for a single item's failure.
+ */
+export async function runBatch(items: BatchItem[], options: BatchRunOptions): Promise<void> {
+  const { concurrency, rateLimiter, analyze, onUpdate } = options;
+  const signal = options.signal ?? new AbortController().signal;
+  const pending = [...items];
+
+  pending.forEach(item => onUpdate(item.id, { status: 'queued', stagesDone: 0, error: undefined, result: undefined }));
+
+  const acquireSlot = async (item: BatchItem) => {
+    for (;;) {
+      signal.throwIfAborted();
+      const { allowed, resetTime } = rateLimiter.checkLimit();
+      if (allowed) return;
+      const resumeAt = resetTime ?? Date.now() + 1000;
+      onUpdate(item.id, { status: 'rate_limited', resumeAt });
+      await wait(Math.max(0, resumeAt - Date.now()), signal);
+    }
+  };
+
+  const worker = async () => {
+    for (let item = pending.shift(); item; item = pending.shift()) {
+      try {
+        await acquireSlot(item);
+        onUpdate(item.id, { status: 'running', resumeAt: undefined });
+        const result = await analyze(item, signal);
+        onUpdate(item.id, { status: 'done', result });
+      } catch (error) {
+        if (signal.aborted) {
+          onUpdate(item.id, { status: 'cancelled', resumeAt: undefined });
+          pending.splice(0).forEach(rest => onUpdate(rest.id, { status: 'cancelled' }));
+          return;
+        }
+        onUpdate(item.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+}
+
+export interface BatchSummary {
+  total: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+  averageScore: number | null;
+  averageQuality: number | null;
+  riskMix: Record<RiskLevel | 'unknown', number>;
+  totalProcessingMs: number;
+}
+
+function average(values: number[]): number | null {
+  return values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+export function summarizeBatch(items: BatchItem[]): BatchSummary {
+  const results = items.flatMap(item => (item.status === 'done' && item.result ? [item.result] : []));
+  const riskMix: BatchSummary['riskMix'] = { low: 0, medium: 0, high: 0, unknown: 0 };
+  results.forEach(result => riskMix[result.summary.riskLevel]++);
+
+  return {
+    total: items.length,
+    done: results.length,
+    failed: items.filter(item => item.status === 'failed').length,
+    cancelled: items.filter(item => item.status === 'cancelled').length,
+    // Calls whose section failed are left out rather than counted as zero
+    averageScore: average(
+      results.flatMap(result => result.analyses.qualification?.qualificationSummary.opportunityScore ?? [])
+    ),
+    averageQuality: average(
+      results.flatMap(result => result.analyses.conversation?.conversationScorecard.overallQuality ?? [])
+    ),
+    riskMix,
+    totalProcessingMs: results.reduce((sum, result) => sum + result.processingTime, 0)
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Browser client for the /api/crm/sync route
+ */
+
+import { apiRateLimiter } from '@/lib/security';
+import type { CrmObject, CrmSyncResponse } from './types';
+
+export class CrmRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'CrmRequestError';
+  }
+}
+
+export async function pushToCrm(
+  analysisId: string,
+  objects: CrmObject[],
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<CrmSyncResponse> {
+  if (!apiRateLimiter.checkLimit().allowed) {
+    throw new CrmRequestError('Too many requests. Please wait before syncing again.', 429);
+  }
+
+  const response = await fetch('/api/crm/sync', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ analysisId, objects }),
+    signal
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new CrmRequestError(body?.error ?? `CRM sync failed (${response.status})`, response.status);
+  }
+  return body as CrmSyncResponse;
+}
@@ -0,0 +1,173 @@
+/**
+ * Server-side CRM client
+ *
+ * Import this module from server code only; it reads the CRM credentials
+ * from the environment and uses `node:crypto`.
+ *
+ * Each object is posted separately with an Idempotency-Key derived from its
+ * content, so a retried or repeated push of unchanged data is not applied
+ * twice, while an edited object gets a new key and updates the record with
+ * the same externalId. Network errors, timeouts, 408, 429 and 5xx responses
+ * are retried with exponential backoff; other errors fail the object at once.
+ * A push can be given an overall time budget, so retries never hold a request
+ * open for long.
+ */
+
+import { createHash } from 'node:crypto';
+import type { CrmObject, CrmObjectResult, CrmSyncStatus } from './types';
+
+export interface CrmConfig {
+  // Base URL the object paths are appended to
+  url: string;
+  apiKey?: string;
+}
+
+export interface CrmPushOptions {
+  maxAttempts?: number;
+  // Delay before the first retry; doubles with every attempt
+  baseDelayMs?: number;
+  timeoutMs?: number;
+  // Time budget for the whole push; objects it leaves no time for fail unsent
+  totalTimeoutMs?: number;
+  signal?: AbortSignal;
+  fetch?: typeof fetch;
+}
+
+export class CrmNotConfiguredError extends Error {
+  constructor() {
+    super('CRM integration is not configured on the server');
+    this.name = 'CrmNotConfiguredError';
+  }
+}
+
+const MAX_DELAY_MS = 30_000;
+
+/**
+ * CRM endpoint from CRM_API_URL, with an optional CRM_API_KEY bearer token
+ */
+export function getCrmConfig(env: NodeJS.ProcessEnv = process.env): CrmConfig {
+  if (!env.CRM_API_URL) throw new CrmNotConfiguredError();
+  return { url: env.CRM_API_URL.replace(/\/+$/, ''), apiKey: env.CRM_API_KEY || undefined };
+}
+
+export function idempotencyKey(analysisId: string, object: CrmObject): string {
+  const content = JSON.stringify([analysisId, object.type, object.path, object.externalId, object.properties, object.associations ?? {}]);
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function retryAfterMs(response: Response): number | undefined {
+  const header = response.headers.get('retry-after');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function pushObject(
+  analysisId: string,
+  object: CrmObject,
+  config: CrmConfig,
+  deadline: number,
+  { maxAttempts = 4, baseDelayMs = 500, timeoutMs = 10_000, signal, fetch: fetchImpl = fetch }: CrmPushOptions
+): Promise<CrmObjectResult> {
+  const key = idempotencyKey(analysisId, object);
+  const result = { type: object.type, externalId: object.externalId, idempotencyKey: key };
+  let error = 'No attempts made';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let delayMs = baseDelayMs * 2 ** (attempt - 1);
+    const attemptTimeoutMs = Math.max(1, Math.min(timeoutMs, deadline - Date.now()));
+    try {
+      const response = await fetchImpl(`${config.url}/${object.path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': key,
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({ externalId: object.externalId, properties: object.properties, associations: object.associations }),
+        signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(attemptTimeoutMs)]) : AbortSignal.timeout(attemptTimeoutMs)
+      });
+      const body = await response.json().catch(() => null);
+
+      if (response.ok) {
+        const crmId = body?.id ?? body?.crmId;
+        return { ...result, status: 'synced', attempts: attempt, crmId: crmId === undefined ? undefined : String(crmId) };
+      }
+      error = `CRM responded ${response.status}${body?.error ? `: ${body.error}` : ''}`;
+      if (!isRetryable(response.status)) {
+        return { ...result, status: 'failed', attempts: attempt, error };
+      }
+      delayMs = retryAfterMs(response) ?? delayMs;
+    } catch (caught) {
+      if (signal?.aborted) throw caught;
+      error = caught instanceof Error ? caught.message : 'CRM request failed';
+    }
+
+    if (attempt === maxAttempts) break;
+    const pauseMs = Math.min(delayMs, MAX_DELAY_MS);
+    if (Date.now() + pauseMs >= deadline) {
+      return { ...result, status: 'failed', attempts: attempt, error: `${error} (out of time to retry)` };
+    }
+    await wait(pauseMs, signal);
+  }
+
+  return { ...result, status: 'failed', attempts: maxAttempts, error };
+}
+
+export function syncStatus(results: CrmObjectResult[]): CrmSyncStatus {
+  const synced = results.filter(result => result.status === 'synced').length;
+  return synced === results.length ? 'synced' : synced === 0 ? 'failed' : 'partial';
+}
+
+/**
+ * Push objects in order. A failed object does not stop the rest, so one bad
+ * task still lets the note and the other tasks through.
+ */
+export async function pushCrmObjects(
+  analysisId: string,
+  objects: CrmObject[],
+  config: CrmConfig,
+  options: CrmPushOptions = {}
+): Promise<CrmObjectResult[]> {
+  const deadline = Date.now() + (options.totalTimeoutMs ?? Infinity);
+  const results: CrmObjectResult[] = [];
+  for (const object of objects) {
+    results.push(
+      Date.now() < deadline
+        ? await pushObject(analysisId, object, config, deadline, options)
+        : {
+            type: object.type,
+            externalId: object.externalId,
+            idempotencyKey: idempotencyKey(analysisId, object),
+            status: 'failed',
+            attempts: 0,
+            error: 'Not sent: the sync ran out of time'
+          }
+    );
+  }
+  return results;
+}
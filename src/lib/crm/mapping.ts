@@ -0,0 +1,306 @@
+/**
+ * CRM field mapping
+ *
+ * Each CRM object (contact, opportunity, task, note) is built from a list of
+ * `field <- source` pairs. Sources are the named values in CRM_SOURCES; task
+ * sources are only available on the task object, which is built once per
+ * action plan task. Values are derived from the analysis alone, so pushing
+ * the same analysis twice produces identical objects.
+ */
+
+import { z } from 'zod';
+import { callTimeOf, resolveActionTasks } from '@/lib/analysis/tasks';
+import type { ActionTask, AnalysisResult, CallMetadata } from '@/lib/analysis/types';
+import { buildCoachingReport } from '@/lib/export/report';
+import { reportToMarkdown } from '@/lib/export/report-markdown';
+import type { CrmMapping, CrmObject, CrmObjectType, CrmValue } from './types';
+
+export const CRM_OBJECT_TYPES: { type: CrmObjectType; label: string }[] = [
+  { type: 'contact', label: 'Contact' },
+  { type: 'opportunity', label: 'Opportunity' },
+  { type: 'task', label: 'Tasks' },
+  { type: 'note', label: 'Note' }
+];
+
+interface CrmSourceContext {
+  result: AnalysisResult;
+  metadata: CallMetadata;
+  task?: ActionTask;
+}
+
+interface CrmSource {
+  label: string;
+  // Task sources read the current action plan task
+  scope: 'analysis' | 'task';
+  value: (context: CrmSourceContext) => CrmValue;
+}
+
+function nameParts(name: string): { first: string; last: string } {
+  const parts = name.trim().split(/\s+/);
+  return parts.length > 1 ? { first: parts.slice(0, -1).join(' '), last: parts[parts.length - 1] } : { first: '', last: parts[0] ?? '' };
+}
+
+function text(value: string): CrmValue {
+  return value.trim() || null;
+}
+
+function lines(values: string[]): CrmValue {
+  return values.length ? values.join('\n') : null;
+}
+
+export const CRM_SOURCES: Record<string, CrmSource> = {
+  prospectName: { label: 'Prospect name', scope: 'analysis', value: ({ metadata }) => text(metadata.prospectName) },
+  prospectFirstName: {
+    label: 'Prospect first name',
+    scope: 'analysis',
+    value: ({ metadata }) => text(nameParts(metadata.prospectName).first)
+  },
+  prospectLastName: {
+    label: 'Prospect last name',
+    scope: 'analysis',
+    value: ({ metadata }) => text(nameParts(metadata.prospectName).last)
+  },
+  prospectAge: { label: 'Prospect age', scope: 'analysis', value: ({ metadata }) => text(metadata.prospectAge) },
+  retirementStatus: { label: 'Retirement status', scope: 'analysis', value: ({ metadata }) => text(metadata.retirementStatus) },
+  accountTypes: { label: 'Account types', scope: 'analysis', value: ({ metadata }) => text(metadata.accountTypes.join('; ')) },
+  accountValues: { label: 'Account values', scope: 'analysis', value: ({ metadata }) => text(metadata.accountValues) },
+  timeframe: { label: 'Timeframe', scope: 'analysis', value: ({ metadata }) => text(metadata.timeframe) },
+  salesRep: { label: 'Sales rep', scope: 'analysis', value: ({ metadata }) => text(metadata.salesRep) },
+  callPurpose: { label: 'Call purpose', scope: 'analysis', value: ({ metadata }) => text(metadata.callPurpose) },
+  callDate: { label: 'Call date', scope: 'analysis', value: ({ metadata }) => text(metadata.callDateTime ?? '') },
+  dealName: {
+    label: 'Deal name',
+    scope: 'analysis',
+    value: ({ metadata }) => `Gold IRA - ${metadata.prospectName.trim() || 'Unnamed prospect'}`
+  },
+  analysisId: { label: 'Analysis id', scope: 'analysis', value: ({ result }) => result.analysisId },
+  analyzedAt: { label: 'Analyzed at', scope: 'analysis', value: ({ result }) => result.timestamp },
+  qualificationScore: {
+    label: 'Qualification score',
+    scope: 'analysis',
+    value: ({ result }) => result.analyses.qualification?.qualificationSummary.opportunityScore ?? null
+  },
+  investmentReadiness: { label: 'Investment readiness', scope: 'analysis', value: ({ result }) => result.summary.investmentReadiness },
+  riskLevel: { label: 'Risk level', scope: 'analysis', value: ({ result }) => result.summary.riskLevel },
+  riskScore: { label: 'Risk score', scope: 'analysis', value: ({ result }) => result.analyses.dealRisk?.riskScore ?? null },
+  rolloverAmount: {
+    label: 'Rollover amount',
+    scope: 'analysis',
+    value: ({ result }) => result.analyses.qualification?.rolloverAmount ?? null
+  },
+  keyInsights: { label: 'Key insights', scope: 'analysis', value: ({ result }) => lines(result.summary.keyInsights) },
+  criticalActions: { label: 'Critical actions', scope: 'analysis', value: ({ result }) => lines(result.summary.criticalActions) },
+  recommendedNextSteps: {
+    label: 'Recommended next steps',
+    scope: 'analysis',
+    value: ({ result }) => lines(result.summary.recommendedNextSteps)
+  },
+  noteTitle: {
+    label: 'Note title',
+    scope: 'analysis',
+    value: ({ result, metadata }) =>
+      `Call analysis: ${metadata.prospectName.trim() || 'Unnamed prospect'} (${result.timestamp.slice(0, 10)})`
+  },
+  summaryMarkdown: {
+    label: 'Summary (Markdown)',
+    scope: 'analysis',
+    value: ({ result, metadata }) =>
+      reportToMarkdown(
+        buildCoachingReport(result, metadata, {
+          sections: ['summary', 'qualification', 'dealRisk', 'actionPlan'],
+          // Dated by the analysis so the note is identical on every push
+          generatedAt: new Date(result.timestamp)
+        })
+      )
+  },
+  taskTitle: { label: 'Task title', scope: 'task', value: ({ task }) => task?.title ?? null },
+  taskOwner: { label: 'Task owner', scope: 'task', value: ({ task }) => task?.owner ?? null },
+  taskDueAt: { label: 'Task due (timestamp)', scope: 'task', value: ({ task }) => task?.dueAt ?? null },
+  taskDueDate: { label: 'Task due (date)', scope: 'task', value: ({ task }) => task?.dueAt?.slice(0, 10) ?? null },
+  taskPriority: { label: 'Task priority', scope: 'task', value: ({ task }) => task?.priority ?? null },
+  taskStatus: { label: 'Task status', scope: 'task', value: ({ task }) => task?.status ?? null }
+};
+
+/**
+ * Sources that can be mapped onto an object type
+ */
+export function crmSourcesFor(type: CrmObjectType): [string, CrmSource][] {
+  return Object.entries(CRM_SOURCES).filter(([, source]) => type === 'task' || source.scope === 'analysis');
+}
+
+export const CRM_MAPPING_PRESETS: Record<'hubspot' | 'salesforce', { label: string; mapping: CrmMapping }> = {
+  hubspot: {
+    label: 'HubSpot',
+    mapping: {
+      contact: {
+        enabled: true,
+        path: 'contacts',
+        fields: [
+          { field: 'firstname', source: 'prospectFirstName' },
+          { field: 'lastname', source: 'prospectLastName' },
+          { field: 'gold_ira_account_types', source: 'accountTypes' },
+          { field: 'gold_ira_readiness', source: 'investmentReadiness' }
+        ]
+      },
+      opportunity: {
+        enabled: true,
+        path: 'deals',
+        fields: [
+          { field: 'dealname', source: 'dealName' },
+          { field: 'amount', source: 'rolloverAmount' },
+          { field: 'gold_ira_qualification_score', source: 'qualificationScore' },
+          { field: 'gold_ira_risk_level', source: 'riskLevel' },
+          { field: 'gold_ira_next_steps', source: 'recommendedNextSteps' }
+        ]
+      },
+      task: {
+        enabled: true,
+        path: 'tasks',
+        fields: [
+          { field: 'hs_task_subject', source: 'taskTitle' },
+          { field: 'hs_task_priority', source: 'taskPriority' },
+          { field: 'hs_task_status', source: 'taskStatus' },
+          { field: 'hs_timestamp', source: 'taskDueAt' },
+          { field: 'gold_ira_task_owner', source: 'taskOwner' }
+        ]
+      },
+      note: {
+        enabled: true,
+        path: 'notes',
+        fields: [
+          { field: 'hs_note_body', source: 'summaryMarkdown' },
+          { field: 'hs_timestamp', source: 'analyzedAt' }
+        ]
+      }
+    }
+  },
+  salesforce: {
+    label: 'Salesforce',
+    mapping: {
+      contact: {
+        enabled: true,
+        path: 'Contact',
+        fields: [
+          { field: 'FirstName', source: 'prospectFirstName' },
+          { field: 'LastName', source: 'prospectLastName' },
+          { field: 'Gold_IRA_Account_Types__c', source: 'accountTypes' }
+        ]
+      },
+      opportunity: {
+        enabled: true,
+        path: 'Opportunity',
+        fields: [
+          { field: 'Name', source: 'dealName' },
+          { field: 'Amount', source: 'rolloverAmount' },
+          { field: 'NextStep', source: 'recommendedNextSteps' },
+          { field: 'Qualification_Score__c', source: 'qualificationScore' },
+          { field: 'Risk_Level__c', source: 'riskLevel' }
+        ]
+      },
+      task: {
+        enabled: true,
+        path: 'Task',
+        fields: [
+          { field: 'Subject', source: 'taskTitle' },
+          { field: 'ActivityDate', source: 'taskDueDate' },
+          { field: 'Priority', source: 'taskPriority' },
+          { field: 'Status', source: 'taskStatus' }
+        ]
+      },
+      note: {
+        enabled: true,
+        path: 'Note',
+        fields: [
+          { field: 'Title', source: 'noteTitle' },
+          { field: 'Body', source: 'summaryMarkdown' }
+        ]
+      }
+    }
+  }
+};
+
+export const DEFAULT_CRM_MAPPING: CrmMapping = CRM_MAPPING_PRESETS.hubspot.mapping;
+
+export const CRM_PATH_PATTERN = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/;
+
+function objectMappingSchema(type: CrmObjectType) {
+  return z
+    .object({
+      enabled: z.boolean(),
+      path: z.string().regex(CRM_PATH_PATTERN, 'CRM paths may only contain letters, digits, "_", "-" and "/"'),
+      fields: z
+        .array(
+          z.object({
+            field: z.string().trim().regex(/^[A-Za-z_][\w.-]{0,99}$/, 'CRM field names must start with a letter or "_"'),
+            source: z.string().refine(
+              source => crmSourcesFor(type).some(([id]) => id === source),
+              `Unknown source for the ${type} object`
+            )
+          })
+        )
+        .refine(fields => new Set(fields.map(field => field.field)).size === fields.length, 'Each CRM field can only be mapped once')
+    })
+    .refine(mapping => !mapping.enabled || mapping.fields.length > 0, 'Map at least one field or disable the object');
+}
+
+export const crmMappingSchema: z.ZodType<CrmMapping> = z.object({
+  contact: objectMappingSchema('contact'),
+  opportunity: objectMappingSchema('opportunity'),
+  task: objectMappingSchema('task'),
+  note: objectMappingSchema('note')
+});
+
+function mapFields(mapping: CrmMapping[CrmObjectType], context: CrmSourceContext): Record<string, CrmValue> {
+  return Object.fromEntries(mapping.fields.map(({ field, source }) => [field, CRM_SOURCES[source]?.value(context) ?? null]));
+}
+
+/**
+ * The CRM records for an analysis, in the order they should be pushed:
+ * contact and opportunity first so tasks and notes can be associated with them
+ */
+export function buildCrmObjects(result: AnalysisResult, metadata: CallMetadata, mapping: CrmMapping): CrmObject[] {
+  const context: CrmSourceContext = { result, metadata };
+  // Contacts and opportunities follow the prospect ID the user entered, so follow-up calls
+  // update the same records; names are not unique, so without an ID each call gets its own
+  const prospect = metadata.crmProspectId?.trim() || result.analysisId;
+  const contactId = mapping.contact.enabled ? `goldira-contact-${prospect}` : undefined;
+  const opportunityId = mapping.opportunity.enabled ? `goldira-opportunity-${prospect}` : undefined;
+  const associations = { contact: contactId, opportunity: opportunityId };
+  const objects: CrmObject[] = [];
+
+  if (contactId) {
+    objects.push({ type: 'contact', path: mapping.contact.path, externalId: contactId, properties: mapFields(mapping.contact, context) });
+  }
+  if (opportunityId) {
+    objects.push({
+      type: 'opportunity',
+      path: mapping.opportunity.path,
+      externalId: opportunityId,
+      properties: mapFields(mapping.opportunity, context),
+      associations: { contact: contactId }
+    });
+  }
+  if (mapping.task.enabled && result.analyses.actionPlan) {
+    const tasks = resolveActionTasks(result.analyses.actionPlan, callTimeOf(metadata, result.timestamp), metadata.salesRep);
+    for (const task of tasks) {
+      objects.push({
+        type: 'task',
+        path: mapping.task.path,
+        externalId: `goldira-task-${result.analysisId}-${task.id}`,
+        properties: mapFields(mapping.task, { ...context, task }),
+        associations
+      });
+    }
+  }
+  if (mapping.note.enabled) {
+    objects.push({
+      type: 'note',
+      path: mapping.note.path,
+      externalId: `goldira-note-${result.analysisId}`,
+      properties: mapFields(mapping.note, context),
+      associations
+    });
+  }
+
+  return objects;
+}
@@ -0,0 +1,45 @@
+/**
+ * Server-side validation of CRM sync requests
+ *
+ * Object paths are checked against CRM_PATH_PATTERN so a request can only
+ * reach collections under the configured CRM endpoint.
+ */
+
+import { z } from 'zod';
+import { CRM_PATH_PATTERN } from './mapping';
+import type { CrmObject } from './types';
+
+export interface CrmSyncRequest {
+  analysisId: string;
+  objects: CrmObject[];
+}
+
+const MAX_OBJECTS = 200;
+const MAX_VALUE_LENGTH = 100_000;
+
+const externalIdSchema = z.string().min(1).max(200);
+
+const crmObjectSchema = z.object({
+  type: z.enum(['contact', 'opportunity', 'task', 'note']),
+  path: z.string().regex(CRM_PATH_PATTERN, 'Invalid CRM object path'),
+  externalId: externalIdSchema,
+  properties: z.record(
+    z.string().min(1).max(100),
+    z.union([z.string().max(MAX_VALUE_LENGTH), z.number(), z.boolean(), z.null()])
+  ),
+  associations: z.object({ contact: externalIdSchema.optional(), opportunity: externalIdSchema.optional() }).optional()
+});
+
+const crmSyncRequestSchema = z.object({
+  analysisId: z.string().min(1).max(200),
+  objects: z.array(crmObjectSchema).min(1, 'Nothing to sync').max(MAX_OBJECTS)
+});
+
+export function validateCrmSyncRequest(body: unknown):
+  | { valid: true; request: CrmSyncRequest }
+  | { valid: false; error: string } {
+  const parsed = crmSyncRequestSchema.safeParse(body);
+  if (parsed.success) return { valid: true, request: parsed.data };
+  const issue = parsed.error.issues[0];
+  return { valid: false, error: issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message };
+}
@@ -0,0 +1,35 @@
+/**
+ * Per-analysis CRM sync log
+ *
+ * Sealed in secureStorage, separate from the history database, so re-saving
+ * an analysis never drops its sync attempts. Only the most recent attempts
+ * per analysis are kept.
+ */
+
+import { FrontendSecurity } from '@/lib/security';
+import type { CrmSyncRecord } from './types';
+
+const KEY_PREFIX = 'crm-sync-log:';
+const MAX_RECORDS = 20;
+
+const storage = FrontendSecurity.secureStorage;
+
+/**
+ * Sync attempts for an analysis, newest first. Empty while storage is locked.
+ */
+export async function loadCrmSyncLog(analysisId: string): Promise<CrmSyncRecord[]> {
+  return (await storage.get<CrmSyncRecord[]>(KEY_PREFIX + analysisId)) ?? [];
+}
+
+/**
+ * Throws VaultLockedError while secure storage is locked
+ */
+export async function appendCrmSyncLog(analysisId: string, record: CrmSyncRecord): Promise<CrmSyncRecord[]> {
+  const records = [record, ...(await loadCrmSyncLog(analysisId))].slice(0, MAX_RECORDS);
+  await storage.set(KEY_PREFIX + analysisId, records);
+  return records;
+}
+
+export function clearCrmSyncLog(analysisId: string): void {
+  storage.remove(KEY_PREFIX + analysisId);
+}
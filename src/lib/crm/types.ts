@@ -0,0 +1,62 @@
+/**
+ * Shared CRM integration types
+ */
+
+export type CrmObjectType = 'contact' | 'opportunity' | 'task' | 'note';
+
+export type CrmValue = string | number | boolean | null;
+
+export interface CrmFieldMapping {
+  // Property name in the CRM, e.g. "firstname" or "Amount"
+  field: string;
+  // Key of CRM_SOURCES the value is read from
+  source: string;
+}
+
+export interface CrmObjectMapping {
+  enabled: boolean;
+  // Collection the object is posted to, relative to the CRM endpoint, e.g. "contacts"
+  path: string;
+  fields: CrmFieldMapping[];
+}
+
+export type CrmMapping = Record<CrmObjectType, CrmObjectMapping>;
+
+// One record to create or update in the CRM
+export interface CrmObject {
+  type: CrmObjectType;
+  path: string;
+  // Stable id on our side, so a repeated push updates instead of duplicating
+  externalId: string;
+  properties: Record<string, CrmValue>;
+  // External ids of the contact and opportunity this record belongs to
+  associations?: Partial<Record<'contact' | 'opportunity', string>>;
+}
+
+export interface CrmObjectResult {
+  type: CrmObjectType;
+  externalId: string;
+  status: 'synced' | 'failed';
+  attempts: number;
+  idempotencyKey: string;
+  // Id assigned by the CRM
+  crmId?: string;
+  error?: string;
+}
+
+export type CrmSyncStatus = 'synced' | 'partial' | 'failed';
+
+export interface CrmSyncResponse {
+  analysisId: string;
+  status: CrmSyncStatus;
+  results: CrmObjectResult[];
+}
+
+// One push attempt, as kept in the per-analysis sync log
+export interface CrmSyncRecord {
+  syncedAt: string;
+  status: CrmSyncStatus;
+  results: CrmObjectResult[];
+  // Set when the request as a whole failed, e.g. the CRM is not configured
+  error?: string;
+}
@@ -0,0 +1,55 @@
+/**
+ * Browser entry point for document text extraction
+ *
+ * Each extraction runs in its own short-lived worker so large PDFs never
+ * block the UI. Nothing leaves the browser.
+ */
+
+import { DocumentExtractionError, type DocumentFormat, type ExtractedDocument, type ExtractionRequest, type ExtractionResponse } from './types';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Which extractor a file needs, or null for files that are already text
+ */
+export function getDocumentFormat(file: File): DocumentFormat | null {
+  const extension = file.name.toLowerCase().split('.').pop();
+  if (file.type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (file.type === DOCX_TYPE || extension === 'docx') return 'docx';
+  return null;
+}
+
+export async function extractDocumentText(file: File, format: DocumentFormat, signal?: AbortSignal): Promise<ExtractedDocument> {
+  const data = await file.arrayBuffer();
+  signal?.throwIfAborted();
+
+  const worker = new Worker(new URL('./extract.worker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<ExtractedDocument>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.onmessage = (event: MessageEvent<ExtractionResponse>) => {
+      finish();
+      if (event.data.ok) {
+        resolve(event.data.document);
+      } else {
+        reject(new DocumentExtractionError(event.data.error, event.data.code));
+      }
+    };
+    worker.onerror = () => {
+      finish();
+      reject(new DocumentExtractionError('The document reader failed to start.', 'unreadable'));
+    };
+
+    const request: ExtractionRequest = { format, data };
+    worker.postMessage(request, [data]);
+  });
+}
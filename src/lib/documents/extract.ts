@@ -0,0 +1,161 @@
+/**
+ * PDF and Word text extraction
+ *
+ * Runs inside the extraction worker. Page and paragraph boundaries are kept
+ * as line breaks so speaker-labelled lines survive into the parser.
+ */
+
+import { strFromU8, unzipSync } from 'fflate';
+import * as pdfjs from 'pdfjs-dist';
+// Registers PDF.js's message handler on this thread, so it never loads a worker script
+import 'pdfjs-dist/build/pdf.worker.mjs';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import { DocumentExtractionError, type DocumentFormat, type ExtractedDocument } from './types';
+
+// Fewer visible characters per page than this means the PDF has no real text layer
+const MIN_CHARS_PER_PAGE = 20;
+
+function visibleLength(text: string): number {
+  return text.replace(/\s/g, '').length;
+}
+
+/**
+ * Collapse runs of blank lines and trim the result
+ */
+function tidy(lines: string[]): string {
+  return lines.join('\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Rebuild a page's lines from PDF.js text items, inserting a blank line
+ * where the vertical gap between lines signals a new paragraph.
+ */
+function pageText(items: (TextItem | TextMarkedContent)[]): string {
+  const lines: { text: string; y: number; height: number }[] = [];
+  let current: { text: string; y: number; height: number } | null = null;
+
+  for (const item of items) {
+    if (!('str' in item)) continue;
+    current ??= { text: '', y: item.transform[5], height: item.height };
+    current.text += item.str;
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    const gap = previous ? previous.y - line.y : 0;
+    if (previous?.text.trim() && line.text.trim() && gap > Math.max(previous.height, line.height) * 1.8) {
+      output.push('');
+    }
+    output.push(line.text.trim());
+  });
+
+  return tidy(output);
+}
+
+async function extractPdf(data: ArrayBuffer): Promise<ExtractedDocument> {
+  let pdf: pdfjs.PDFDocumentProxy;
+  try {
+    pdf = await pdfjs.getDocument({
+      data: new Uint8Array(data),
+      isEvalSupported: false,
+      disableFontFace: true,
+      stopAtErrors: false,
+      verbosity: pdfjs.VerbosityLevel.ERRORS
+    }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new DocumentExtractionError('This PDF is password protected. Remove the password and upload it again.', 'encrypted');
+    }
+    throw new DocumentExtractionError('This file could not be read as a PDF.', 'unreadable');
+  }
+
+  const pages: string[] = [];
+  try {
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      pages.push(pageText(content.items));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const characters = pages.reduce((sum, page) => sum + visibleLength(page), 0);
+  if (characters === 0 || characters < MIN_CHARS_PER_PAGE * pages.length) {
+    throw new DocumentExtractionError(
+      'This PDF has no selectable text; it looks like a scanned or image-only document. Run it through OCR or upload a text export of the transcript.',
+      'image_only'
+    );
+  }
+
+  // A blank line separates pages, like paragraphs
+  const text = pages.filter(page => page.length > 0).join('\n\n');
+  return {
+    format: 'pdf',
+    text,
+    pageCount: pages.length,
+    paragraphCount: text.split(/\n{2,}/).length
+  };
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Read the text runs of each <w:p> paragraph in word/document.xml
+ */
+function docxParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  const paragraphPattern = /<w:p(?:\s[^>]*)?(?:\/>|>([\s\S]*?)<\/w:p>)/g;
+  const runPattern = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)(?:\s[^>]*)?\/>/g;
+
+  for (const [, body = ''] of xml.matchAll(paragraphPattern)) {
+    // Paragraph properties declare tab stops, which are not content
+    const content = body.replace(/<w:pPr>[\s\S]*?<\/w:pPr>/g, '');
+    let text = '';
+    for (const [, run, marker] of content.matchAll(runPattern)) {
+      text += marker === 'tab' ? '\t' : marker ? '\n' : decodeXml(run);
+    }
+    paragraphs.push(text.trim());
+  }
+
+  return paragraphs;
+}
+
+function extractDocx(data: ArrayBuffer): ExtractedDocument {
+  let xml: string;
+  try {
+    const files = unzipSync(new Uint8Array(data), { filter: file => file.name === 'word/document.xml' });
+    xml = strFromU8(files['word/document.xml']);
+  } catch {
+    throw new DocumentExtractionError('This file could not be read as a Word (.docx) document.', 'unreadable');
+  }
+
+  const paragraphs = docxParagraphs(xml);
+  const text = tidy(paragraphs);
+  if (!text) {
+    throw new DocumentExtractionError('This Word document contains no text.', 'empty');
+  }
+
+  return { format: 'docx', text, paragraphCount: paragraphs.filter(Boolean).length };
+}
+
+export async function extractDocument(format: DocumentFormat, data: ArrayBuffer): Promise<ExtractedDocument> {
+  return format === 'pdf' ? extractPdf(data) : extractDocx(data);
+}
@@ -0,0 +1,21 @@
+/**
+ * Document extraction worker
+ *
+ * Keeps PDF parsing and unzipping off the main thread. Receives one
+ * ExtractionRequest and answers with one ExtractionResponse.
+ */
+
+import { extractDocument } from './extract';
+import { DocumentExtractionError, type ExtractionRequest, type ExtractionResponse } from './types';
+
+addEventListener('message', async (event: MessageEvent<ExtractionRequest>) => {
+  let response: ExtractionResponse;
+  try {
+    response = { ok: true, document: await extractDocument(event.data.format, event.data.data) };
+  } catch (error) {
+    response = error instanceof DocumentExtractionError
+      ? { ok: false, error: error.message, code: error.code }
+      : { ok: false, error: 'Could not extract text from this document.', code: 'unreadable' };
+  }
+  postMessage(response);
+});
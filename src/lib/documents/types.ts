@@ -0,0 +1,33 @@
+/**
+ * Document extraction types
+ *
+ * Shared by the page and the extraction worker.
+ */
+
+export type DocumentFormat = 'pdf' | 'docx';
+
+export type DocumentExtractionErrorCode = 'image_only' | 'encrypted' | 'unreadable' | 'empty';
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  // PDF page count; Word documents have no fixed pages
+  pageCount?: number;
+  paragraphCount: number;
+}
+
+export interface ExtractionRequest {
+  format: DocumentFormat;
+  data: ArrayBuffer;
+}
+
+export type ExtractionResponse =
+  | { ok: true; document: ExtractedDocument }
+  | { ok: false; error: string; code: DocumentExtractionErrorCode };
+
+export class DocumentExtractionError extends Error {
+  constructor(message: string, readonly code: DocumentExtractionErrorCode) {
+    super(message);
+    this.name = 'DocumentExtractionError';
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * CSV export of analysis history, one row per call
+ *
+ * Columns are declared once in HISTORY_CSV_COLUMNS, so the header and every
+ * row always line up. Append new columns at the end to keep existing
+ * spreadsheets and imports working. Cells for missing sections are empty.
+ */
+
+import { SCORECARD_METRICS } from '@/lib/analysis/compare';
+import type { HistoryEntry } from '@/lib/history/store';
+
+export interface CsvColumn<T> {
+  // snake_case header
+  id: string;
+  value: (row: T) => string | number | undefined;
+}
+
+function snakeCase(value: string): string {
+  return value.replace(/([A-Z])/g, '_$1').toLowerCase();
+}
+
+export const HISTORY_CSV_COLUMNS: CsvColumn<HistoryEntry>[] = [
+  { id: 'analysis_id', value: entry => entry.analysisId },
+  { id: 'analyzed_at', value: entry => entry.result.timestamp },
+  { id: 'sales_rep', value: entry => entry.metadata.salesRep },
+  { id: 'prospect', value: entry => entry.metadata.prospectName },
+  { id: 'engine', value: entry => entry.result.engine },
+  ...SCORECARD_METRICS.map(({ key }): CsvColumn<HistoryEntry> => ({
+    id: snakeCase(key),
+    value: entry => entry.result.analyses.conversation?.conversationScorecard[key]
+  })),
+  { id: 'qualification_score', value: entry => entry.result.analyses.qualification?.qualificationSummary.opportunityScore },
+  { id: 'investment_readiness', value: entry => entry.result.summary.investmentReadiness },
+  { id: 'risk_level', value: entry => entry.result.summary.riskLevel },
+  { id: 'risk_score', value: entry => entry.result.analyses.dealRisk?.riskScore },
+  { id: 'objections', value: entry => entry.result.analyses.objections?.objections.length },
+  {
+    id: 'unresolved_objections',
+    value: entry => entry.result.analyses.objections?.objections.filter(objection => !objection.resolved).length
+  }
+];
+
+/**
+ * Quote a cell per RFC 4180. Text that a spreadsheet would run as a formula
+ * is prefixed with an apostrophe.
+ */
+function formatCell(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+  const lines = [
+    columns.map(column => column.id).join(','),
+    ...rows.map(row => columns.map(column => formatCell(column.value(row))).join(','))
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function historyToCsv(entries: HistoryEntry[]): string {
+  return toCsv(HISTORY_CSV_COLUMNS, entries);
+}
@@ -0,0 +1,76 @@
+/**
+ * iCalendar (RFC 5545) export of action plan follow-ups
+ *
+ * Each open task with a due date becomes a 30 minute event at its deadline,
+ * which every major calendar app imports.
+ */
+
+import type { ActionTask } from '@/lib/analysis/types';
+
+const EVENT_MINUTES = 30;
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets, as the spec requires
+ */
+function foldLine(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    if (size + charSize > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function tasksToICalendar(
+  tasks: ActionTask[],
+  { analysisId, prospectName, now = new Date() }: { analysisId: string; prospectName: string; now?: Date }
+): string {
+  const events = tasks
+    .filter(task => task.status === 'open' && task.dueAt)
+    .flatMap(task => {
+      const start = new Date(task.dueAt as string);
+      const end = new Date(start.getTime() + EVENT_MINUTES * 60 * 1000);
+      return [
+        'BEGIN:VEVENT',
+        `UID:${task.id}.${analysisId}@goldira-analysis`,
+        `DTSTAMP:${formatUtc(now)}`,
+        `DTSTART:${formatUtc(start)}`,
+        `DTEND:${formatUtc(end)}`,
+        `SUMMARY:${escapeText(prospectName ? `${task.title} (${prospectName})` : task.title)}`,
+        `DESCRIPTION:${escapeText(`Owner: ${task.owner}\nPriority: ${task.priority}`)}`,
+        `PRIORITY:${{ high: 1, medium: 5, low: 9 }[task.priority]}`,
+        'END:VEVENT'
+      ];
+    });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Gold IRA Sales Analysis//Action Plan//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+}
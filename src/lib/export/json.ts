@@ -0,0 +1,38 @@
+/**
+ * Versioned JSON export of a complete analysis
+ *
+ * The envelope carries a format name and version so downstream tooling can
+ * detect files it does not understand. Bump the version whenever a field of
+ * AnalysisResult or CallMetadata is renamed or removed; added fields keep it.
+ */
+
+import type { AnalysisResult, CallMetadata } from '@/lib/analysis/types';
+
+export const ANALYSIS_EXPORT_FORMAT = 'goldira-analysis';
+export const ANALYSIS_EXPORT_VERSION = 1;
+
+export interface AnalysisExport {
+  format: typeof ANALYSIS_EXPORT_FORMAT;
+  version: typeof ANALYSIS_EXPORT_VERSION;
+  exportedAt: string;
+  metadata: CallMetadata;
+  result: AnalysisResult;
+}
+
+export function buildAnalysisExport(
+  result: AnalysisResult,
+  metadata: CallMetadata,
+  { exportedAt = new Date() }: { exportedAt?: Date } = {}
+): AnalysisExport {
+  return {
+    format: ANALYSIS_EXPORT_FORMAT,
+    version: ANALYSIS_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    metadata,
+    result
+  };
+}
+
+export function analysisToJson(result: AnalysisResult, metadata: CallMetadata, options?: { exportedAt?: Date }): string {
+  return JSON.stringify(buildAnalysisExport(result, metadata, options), null, 2);
+}
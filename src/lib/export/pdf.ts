@@ -0,0 +1,202 @@
+/**
+ * Minimal PDF writer
+ *
+ * Draws text, rectangles and lines with the built-in Helvetica fonts, so no
+ * font files are embedded and the output is generated entirely in the
+ * browser. Text uses WinAnsi encoding; characters outside it are replaced.
+ * Coordinates are in points from the top-left corner of the page.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfColor = [number, number, number];
+
+// Helvetica and Helvetica-Bold advance widths (1/1000 em) for ASCII 32-126
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ]
+};
+const DEFAULT_WIDTH = 556;
+
+// Unicode punctuation with a WinAnsi code outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+const REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '≥': '>=', '≤': '<=' };
+
+/**
+ * Text as WinAnsi character codes
+ */
+function encode(text: string): number[] {
+  const codes: number[] = [];
+  for (const char of text.replace(/\s/g, ' ')) {
+    const replacement = REPLACEMENTS[char];
+    if (replacement) {
+      codes.push(...[...replacement].map(c => c.charCodeAt(0)));
+      continue;
+    }
+    const code = char.charCodeAt(0);
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) codes.push(code);
+    else codes.push(WIN_ANSI_EXTRAS[char] ?? 0x3f);
+  }
+  return codes;
+}
+
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  const units = encode(text).reduce(
+    (sum, code) => sum + (code >= 32 && code <= 126 ? WIDTHS[font][code - 32] : DEFAULT_WIDTH),
+    0
+  );
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth, splitting overlong words
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word;
+    while (textWidth(line, font, size) > maxWidth && line.length > 1) {
+      let cut = line.length - 1;
+      while (cut > 1 && textWidth(line.slice(0, cut), font, size) > maxWidth) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length ? lines : [''];
+}
+
+function pdfString(text: string): string {
+  return `(${encode(text)
+    .map(code => {
+      if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+      return code > 126 ? `\\${code.toString(8).padStart(3, '0')}` : String.fromCharCode(code);
+    })
+    .join('')})`;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function color([r, g, b]: PdfColor): string {
+  return `${num(r)} ${num(g)} ${num(b)}`;
+}
+
+export function hexColor(hex: string): PdfColor {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private current = -1;
+
+  // US Letter by default
+  constructor(width = 612, height = 792) {
+    this.width = width;
+    this.height = height;
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /**
+   * Draw on an earlier page, e.g. to add "page n of m" footers at the end
+   */
+  setPage(index: number): void {
+    this.current = index;
+  }
+
+  text(x: number, y: number, text: string, { font = 'regular', size = 10, fill = [0, 0, 0] }: { font?: PdfFont; size?: number; fill?: PdfColor } = {}): void {
+    // y is the top of the line; PDF positions text by its baseline
+    const baseline = this.height - y - size * 0.8;
+    this.pages[this.current].push(
+      `BT /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${color(fill)} rg ${num(x)} ${num(baseline)} Td ${pdfString(text)} Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, { fill, stroke, lineWidth = 0.5 }: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number }): void {
+    const path = `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`;
+    if (fill) this.pages[this.current].push(`${color(fill)} rg ${path} f`);
+    if (stroke) this.pages[this.current].push(`${color(stroke)} RG ${num(lineWidth)} w ${path} S`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, { stroke = [0, 0, 0], lineWidth = 0.5 }: { stroke?: PdfColor; lineWidth?: number } = {}): void {
+    this.pages[this.current].push(
+      `${color(stroke)} RG ${num(lineWidth)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  /**
+   * Serialize the document. Content is kept to ASCII, so string lengths are
+   * byte offsets.
+   */
+  toBytes({ title, createdAt = new Date() }: { title?: string; createdAt?: Date } = {}): Uint8Array<ArrayBuffer> {
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 6 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< ${title ? `/Title ${pdfString(title)} ` : ''}/Producer (Gold IRA Sales Analysis) /CreationDate (${pdfDate(createdAt)}) >>`;
+    this.pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects[pageIds[index]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+      objects[pageIds[index] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new TextEncoder().encode(output);
+  }
+}
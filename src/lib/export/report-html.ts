@@ -0,0 +1,118 @@
+/**
+ * Self-contained HTML rendering of a coaching report
+ *
+ * Styles are inlined and nothing is loaded from the network, so the file can
+ * be attached to emails or deal records and still open anywhere. Print styles
+ * keep blocks from splitting across pages.
+ */
+
+import { REPORT_BRAND, type CoachingReport, type ReportBlock, type ReportTone } from './report';
+
+const TONE_COLORS: Record<ReportTone, string> = {
+  good: '#15803d',
+  warning: '#b45309',
+  bad: '#b91c1c',
+  neutral: '#1f2937'
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderBlock(block: ReportBlock): string {
+  switch (block.type) {
+    case 'metrics':
+      return `<div class="metrics">${block.items
+        .map(item =>
+          `<div class="metric"><div class="label">${escapeHtml(item.label)}</div>` +
+          `<div class="value" style="color:${TONE_COLORS[item.tone ?? 'neutral']}">${escapeHtml(item.value)}</div></div>`
+        )
+        .join('')}</div>`;
+    case 'scores':
+      return `<div class="scores">${block.items
+        .map(item => {
+          const value = Math.max(0, Math.min(100, item.value));
+          return `<div class="score"><span>${escapeHtml(item.label)}</span>` +
+            `<div class="bar"><div style="width:${value}%"></div></div><strong>${item.value}</strong></div>`;
+        })
+        .join('')}</div>`;
+    case 'paragraph':
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case 'list':
+      return `${block.title ? `<h3>${escapeHtml(block.title)}</h3>` : ''}<ul>${block.items
+        .map(item => `<li>${escapeHtml(item)}</li>`)
+        .join('')}</ul>`;
+    case 'table':
+      return `<table><thead><tr>${block.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>` +
+        `<tbody>${block.rows
+          .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+          .join('')}</tbody></table>`;
+    case 'note':
+      return `<p class="note">${escapeHtml(block.text)}</p>`;
+  }
+}
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1f2937; font-size: 14px; line-height: 1.5; }
+  main { max-width: 820px; margin: 0 auto; padding: 32px 40px; }
+  header { border-bottom: 3px solid ${REPORT_BRAND.accent}; padding-bottom: 16px; margin-bottom: 24px; }
+  .brand { color: ${REPORT_BRAND.accent}; font-weight: 700; letter-spacing: .08em; text-transform: uppercase; font-size: 12px; }
+  h1 { margin: 4px 0; font-size: 26px; }
+  h2 { color: ${REPORT_BRAND.accent}; font-size: 18px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin: 28px 0 12px; }
+  h3 { font-size: 14px; margin: 16px 0 4px; }
+  .subtitle, .meta { color: #6b7280; font-size: 13px; }
+  section { break-inside: avoid-page; }
+  .metrics { display: grid; grid-template-columns: repeat(auto-fit, minmax(150px, 1fr)); gap: 8px; margin: 8px 0; }
+  .metric { border: 1px solid #e5e7eb; border-radius: 6px; padding: 8px 12px; }
+  .metric .label { color: #6b7280; font-size: 12px; }
+  .metric .value { font-size: 18px; font-weight: 600; }
+  .score { display: grid; grid-template-columns: 170px 1fr 36px; align-items: center; gap: 8px; margin: 4px 0; }
+  .score strong { text-align: right; }
+  .bar { height: 8px; background: #f3f4f6; border-radius: 4px; overflow: hidden; }
+  .bar div { height: 100%; background: ${REPORT_BRAND.accent}; }
+  ul { margin: 4px 0; padding-left: 20px; }
+  table { width: 100%; border-collapse: collapse; margin: 8px 0; font-size: 13px; }
+  th { text-align: left; background: #faf6ee; border-bottom: 2px solid ${REPORT_BRAND.accent}; }
+  th, td { padding: 6px 8px; vertical-align: top; }
+  tr { break-inside: avoid; }
+  td { border-bottom: 1px solid #e5e7eb; }
+  .note { border-left: 3px solid #d97706; background: #fffbeb; padding: 8px 12px; }
+  footer { margin-top: 32px; color: #9ca3af; font-size: 12px; }
+  @page { margin: 16mm; }
+  @media print { main { padding: 0; } }
+`;
+
+export function reportToHtml(report: CoachingReport): string {
+  const sections = report.sections
+    .map(section => `<section><h2>${escapeHtml(section.title)}</h2>${section.blocks.map(renderBlock).join('\n')}</section>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<div class="brand">${escapeHtml(REPORT_BRAND.name)}</div>
+<h1>${escapeHtml(report.title)}</h1>
+<div class="subtitle">${escapeHtml(report.subtitle)}</div>
+</header>
+${report.notes.map(note => `<p class="note">${escapeHtml(note)}</p>`).join('\n')}
+${sections}
+<footer>Generated ${escapeHtml(report.generatedAt)} · ${escapeHtml(report.analysisId)}</footer>
+</main>
+</body>
+</html>
+`;
+}
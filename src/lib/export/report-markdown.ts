@@ -0,0 +1,49 @@
+/**
+ * Markdown rendering of a coaching report, for pasting into chat or notes
+ *
+ * Uses the same report model as the HTML and PDF exports. Scores are written
+ * as lists rather than tables, which most chat apps do not render.
+ */
+
+import type { CoachingReport, ReportBlock } from './report';
+
+function inline(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/([\\`*_[\]<>])/g, '\\$1').trim();
+}
+
+function tableCell(value: string): string {
+  return inline(value).replace(/\|/g, '\\|');
+}
+
+function renderBlock(block: ReportBlock): string {
+  switch (block.type) {
+    case 'metrics':
+      return block.items.map(item => `- **${inline(item.label)}:** ${inline(item.value)}`).join('\n');
+    case 'scores':
+      return block.items.map(item => `- ${inline(item.label)}: ${item.value}/100`).join('\n');
+    case 'paragraph':
+      return inline(block.text);
+    case 'list':
+      return [block.title && `**${inline(block.title)}**`, ...block.items.map(item => `- ${inline(item)}`)]
+        .filter(Boolean)
+        .join('\n');
+    case 'table':
+      return [
+        `| ${block.columns.map(tableCell).join(' | ')} |`,
+        `| ${block.columns.map(() => '---').join(' | ')} |`,
+        ...block.rows.map(row => `| ${row.map(tableCell).join(' | ')} |`)
+      ].join('\n');
+    case 'note':
+      return `> ${inline(block.text)}`;
+  }
+}
+
+export function reportToMarkdown(report: CoachingReport): string {
+  return [
+    `# ${inline(report.title)}`,
+    `_${inline(report.subtitle)}_`,
+    ...report.notes.map(note => `> ${inline(note)}`),
+    ...report.sections.map(section => [`## ${inline(section.title)}`, ...section.blocks.map(renderBlock)].join('\n\n')),
+    `_Generated ${inline(report.generatedAt)} · ${inline(report.analysisId)}_`
+  ].join('\n\n') + '\n';
+}
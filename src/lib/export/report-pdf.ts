@@ -0,0 +1,231 @@
+/**
+ * PDF rendering of a coaching report
+ *
+ * Lays the report blocks out top to bottom on US Letter pages, starting a new
+ * page whenever the next line, box or table row would not fit. Table headers
+ * repeat after a page break.
+ */
+
+import { hexColor, PdfDocument, textWidth, wrapText, type PdfColor, type PdfFont } from './pdf';
+import { REPORT_BRAND, type CoachingReport, type ReportBlock, type ReportTone } from './report';
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 24;
+const LINE_HEIGHT = 1.4;
+
+const ACCENT = hexColor(REPORT_BRAND.accent);
+const TEXT: PdfColor = hexColor('#1f2937');
+const MUTED: PdfColor = hexColor('#6b7280');
+const BORDER: PdfColor = hexColor('#e5e7eb');
+const TONE_COLORS: Record<ReportTone, PdfColor> = {
+  good: hexColor('#15803d'),
+  warning: hexColor('#b45309'),
+  bad: hexColor('#b91c1c'),
+  neutral: TEXT
+};
+
+class ReportLayout {
+  readonly doc = new PdfDocument();
+  readonly contentWidth = this.doc.width - MARGIN * 2;
+  y = MARGIN;
+
+  /**
+   * Start a new page unless `height` more points fit on this one
+   */
+  ensureSpace(height: number): boolean {
+    if (this.y + height <= this.doc.height - MARGIN - FOOTER_HEIGHT) return false;
+    this.doc.addPage();
+    this.y = MARGIN;
+    return true;
+  }
+
+  paragraph(text: string, { x = MARGIN, width = this.contentWidth, font = 'regular' as PdfFont, size = 10, fill = TEXT } = {}): void {
+    for (const line of wrapText(text, font, size, width)) {
+      this.ensureSpace(size * LINE_HEIGHT);
+      this.doc.text(x, this.y, line, { font, size, fill });
+      this.y += size * LINE_HEIGHT;
+    }
+  }
+
+  gap(points: number): void {
+    this.y += points;
+  }
+}
+
+function drawMetrics(layout: ReportLayout, items: Extract<ReportBlock, { type: 'metrics' }>['items']): void {
+  const perRow = 4;
+  const gap = 8;
+  const boxWidth = (layout.contentWidth - gap * (perRow - 1)) / perRow;
+
+  for (let start = 0; start < items.length; start += perRow) {
+    const row = items.slice(start, start + perRow).map(item => ({
+      ...item,
+      lines: wrapText(item.value, 'bold', 12, boxWidth - 16)
+    }));
+    const height = 28 + Math.max(...row.map(item => item.lines.length)) * 12 * LINE_HEIGHT;
+    layout.ensureSpace(height + gap);
+    row.forEach((item, index) => {
+      const x = MARGIN + index * (boxWidth + gap);
+      layout.doc.rect(x, layout.y, boxWidth, height, { stroke: BORDER });
+      layout.doc.text(x + 8, layout.y + 8, item.label, { size: 8, fill: MUTED });
+      item.lines.forEach((line, lineIndex) => {
+        layout.doc.text(x + 8, layout.y + 22 + lineIndex * 12 * LINE_HEIGHT, line, {
+          font: 'bold',
+          size: 12,
+          fill: TONE_COLORS[item.tone ?? 'neutral']
+        });
+      });
+    });
+    layout.gap(height + gap);
+  }
+}
+
+function drawScores(layout: ReportLayout, items: Extract<ReportBlock, { type: 'scores' }>['items']): void {
+  const labelWidth = 150;
+  const valueWidth = 30;
+  const barWidth = layout.contentWidth - labelWidth - valueWidth - 16;
+
+  for (const item of items) {
+    layout.ensureSpace(18);
+    const value = Math.max(0, Math.min(100, item.value));
+    const score = String(item.value);
+    layout.doc.text(MARGIN, layout.y, item.label, { size: 10, fill: TEXT });
+    layout.doc.rect(MARGIN + labelWidth, layout.y + 2, barWidth, 8, { fill: hexColor('#f3f4f6') });
+    if (value > 0) layout.doc.rect(MARGIN + labelWidth, layout.y + 2, (barWidth * value) / 100, 8, { fill: ACCENT });
+    layout.doc.text(layout.doc.width - MARGIN - textWidth(score, 'bold', 10), layout.y, score, { font: 'bold', size: 10, fill: TEXT });
+    layout.gap(18);
+  }
+  layout.gap(4);
+}
+
+function drawList(layout: ReportLayout, title: string | undefined, items: string[]): void {
+  if (title) {
+    layout.ensureSpace(40);
+    layout.paragraph(title, { font: 'bold', size: 10 });
+    layout.gap(2);
+  }
+  for (const item of items) {
+    layout.ensureSpace(14);
+    layout.doc.text(MARGIN + 4, layout.y, '•', { size: 10, fill: ACCENT });
+    layout.paragraph(item, { x: MARGIN + 16, width: layout.contentWidth - 16 });
+    layout.gap(2);
+  }
+  layout.gap(6);
+}
+
+/**
+ * Column widths from each column's widest content, scaled to the page width
+ */
+function columnWidths(columns: string[], rows: string[][], totalWidth: number): number[] {
+  const natural = columns.map((column, index) =>
+    Math.min(
+      220,
+      Math.max(textWidth(column, 'bold', 9), ...rows.map(row => textWidth(row[index] ?? '', 'regular', 9))) + 12
+    )
+  );
+  const scale = totalWidth / natural.reduce((sum, width) => sum + width, 0);
+  return natural.map(width => width * scale);
+}
+
+function drawTable(layout: ReportLayout, columns: string[], rows: string[][]): void {
+  const widths = columnWidths(columns, rows, layout.contentWidth);
+  const lineHeight = 9 * LINE_HEIGHT;
+
+  const drawRow = (cells: string[], header: boolean) => {
+    const font: PdfFont = header ? 'bold' : 'regular';
+    const wrapped = cells.map((cell, index) => wrapText(cell, font, 9, widths[index] - 12));
+    const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + 10;
+    if (header) {
+      layout.doc.rect(MARGIN, layout.y, layout.contentWidth, height, { fill: hexColor('#faf6ee') });
+    }
+    let x = MARGIN;
+    wrapped.forEach((lines, index) => {
+      lines.forEach((line, lineIndex) => {
+        layout.doc.text(x + 6, layout.y + 5 + lineIndex * lineHeight, line, { font, size: 9, fill: TEXT });
+      });
+      x += widths[index];
+    });
+    layout.gap(height);
+    layout.doc.line(MARGIN, layout.y, MARGIN + layout.contentWidth, layout.y, {
+      stroke: header ? ACCENT : BORDER,
+      lineWidth: header ? 1.5 : 0.5
+    });
+  };
+
+  const rowHeight = (cells: string[]) =>
+    Math.max(...cells.map((cell, index) => wrapText(cell, 'regular', 9, widths[index] - 12).length)) * lineHeight + 10;
+
+  layout.ensureSpace(rowHeight(columns) + (rows[0] ? rowHeight(rows[0]) : 0));
+  drawRow(columns, true);
+  for (const row of rows) {
+    if (layout.ensureSpace(rowHeight(row))) drawRow(columns, true);
+    drawRow(row, false);
+  }
+  layout.gap(10);
+}
+
+function drawNote(layout: ReportLayout, text: string): void {
+  const lines = wrapText(text, 'regular', 10, layout.contentWidth - 24);
+  const height = lines.length * 10 * LINE_HEIGHT + 12;
+  layout.ensureSpace(height + 8);
+  layout.doc.rect(MARGIN, layout.y, layout.contentWidth, height, { fill: hexColor('#fffbeb') });
+  layout.doc.rect(MARGIN, layout.y, 3, height, { fill: hexColor('#d97706') });
+  lines.forEach((line, index) => {
+    layout.doc.text(MARGIN + 12, layout.y + 6 + index * 10 * LINE_HEIGHT, line, { size: 10, fill: TEXT });
+  });
+  layout.gap(height + 8);
+}
+
+function drawBlock(layout: ReportLayout, block: ReportBlock): void {
+  switch (block.type) {
+    case 'metrics':
+      return drawMetrics(layout, block.items);
+    case 'scores':
+      return drawScores(layout, block.items);
+    case 'paragraph':
+      layout.paragraph(block.text);
+      return layout.gap(8);
+    case 'list':
+      return drawList(layout, block.title, block.items);
+    case 'table':
+      return drawTable(layout, block.columns, block.rows);
+    case 'note':
+      return drawNote(layout, block.text);
+  }
+}
+
+export function reportToPdf(report: CoachingReport): Uint8Array<ArrayBuffer> {
+  const layout = new ReportLayout();
+  const { doc } = layout;
+
+  doc.text(MARGIN, layout.y, REPORT_BRAND.name.toUpperCase(), { font: 'bold', size: 9, fill: ACCENT });
+  layout.gap(16);
+  layout.paragraph(report.title, { font: 'bold', size: 20 });
+  layout.paragraph(report.subtitle, { size: 10, fill: MUTED });
+  layout.gap(6);
+  doc.line(MARGIN, layout.y, doc.width - MARGIN, layout.y, { stroke: ACCENT, lineWidth: 2.5 });
+  layout.gap(16);
+
+  report.notes.forEach(note => drawNote(layout, note));
+
+  for (const section of report.sections) {
+    // Keep the heading with at least a few lines of its content
+    layout.ensureSpace(80);
+    layout.paragraph(section.title, { font: 'bold', size: 14, fill: ACCENT });
+    doc.line(MARGIN, layout.y + 2, doc.width - MARGIN, layout.y + 2, { stroke: BORDER });
+    layout.gap(10);
+    section.blocks.forEach(block => drawBlock(layout, block));
+    layout.gap(8);
+  }
+
+  const footer = `Generated ${report.generatedAt} · ${report.analysisId}`;
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.setPage(page);
+    const y = doc.height - MARGIN + 4;
+    const pageLabel = `Page ${page + 1} of ${doc.pageCount}`;
+    doc.text(MARGIN, y, footer, { size: 8, fill: MUTED });
+    doc.text(doc.width - MARGIN - textWidth(pageLabel, 'regular', 8), y, pageLabel, { size: 8, fill: MUTED });
+  }
+
+  return doc.toBytes({ title: report.title });
+}
@@ -0,0 +1,334 @@
+/**
+ * Coaching report model
+ *
+ * Turns an analysis into renderer-neutral sections of blocks (metrics, lists,
+ * tables, score bars). The HTML and PDF renderers only lay these out, so both
+ * formats always carry the same content.
+ */
+
+import { SCORECARD_METRICS } from '@/lib/analysis/compare';
+import { objectionLabel } from '@/lib/analysis/cues';
+import { formatDollars } from '@/lib/analysis/qualification';
+import { callTimeOf, resolveActionTasks } from '@/lib/analysis/tasks';
+import type { AnalysisResult, AnalysisSectionKey, CallMetadata } from '@/lib/analysis/types';
+import { formatTimestamp } from '@/lib/transcript/parser';
+
+export const REPORT_BRAND = {
+  name: 'Gold IRA Sales Analysis',
+  // Gold accent used for headings and score bars
+  accent: '#b7862b'
+};
+
+export type ReportSectionId = 'summary' | 'callDetails' | AnalysisSectionKey;
+
+export const REPORT_SECTIONS: { id: ReportSectionId; label: string }[] = [
+  { id: 'summary', label: 'Summary' },
+  { id: 'callDetails', label: 'Call Details' },
+  { id: 'conversation', label: 'Conversation' },
+  { id: 'psychology', label: 'Prospect Psychology' },
+  { id: 'objections', label: 'Objections' },
+  { id: 'dealRisk', label: 'Deal Risk' },
+  { id: 'qualification', label: 'Qualification' },
+  { id: 'actionPlan', label: 'Action Plan' }
+];
+
+export const DEFAULT_REPORT_SECTIONS: ReportSectionId[] = REPORT_SECTIONS.map(section => section.id);
+
+export type ReportTone = 'good' | 'warning' | 'bad' | 'neutral';
+
+export type ReportBlock =
+  | { type: 'metrics'; items: { label: string; value: string; tone?: ReportTone }[] }
+  // 0-100 scores drawn as bars
+  | { type: 'scores'; items: { label: string; value: number }[] }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; title?: string; items: string[] }
+  | { type: 'table'; columns: string[]; rows: string[][] }
+  // Caveats, e.g. a section the backend did not return
+  | { type: 'note'; text: string };
+
+export interface ReportSection {
+  id: ReportSectionId;
+  title: string;
+  blocks: ReportBlock[];
+}
+
+export interface CoachingReport {
+  title: string;
+  // Sales rep and call date
+  subtitle: string;
+  analysisId: string;
+  generatedAt: string;
+  notes: string[];
+  sections: ReportSection[];
+}
+
+export interface ReportOptions {
+  sections?: ReportSectionId[];
+  generatedAt?: Date;
+}
+
+const LEVEL_TONES: Record<string, ReportTone> = { low: 'good', medium: 'warning', high: 'bad', unknown: 'neutral' };
+const READINESS_TONES: Record<string, ReportTone> = { low: 'bad', medium: 'warning', high: 'good', unknown: 'neutral' };
+
+function formatDate(value: string | Date): string {
+  return new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function capitalize(value: string): string {
+  return value ? value[0].toUpperCase() + value.slice(1) : value;
+}
+
+function list(title: string, items: string[] | undefined): ReportBlock[] {
+  return items?.length ? [{ type: 'list', title, items }] : [];
+}
+
+function summaryBlocks(result: AnalysisResult): ReportBlock[] {
+  const { summary } = result;
+  return [
+    {
+      type: 'metrics',
+      items: [
+        { label: 'Qualification score', value: `${summary.overallQualificationScore}/100` },
+        {
+          label: 'Investment readiness',
+          value: capitalize(summary.investmentReadiness),
+          tone: READINESS_TONES[summary.investmentReadiness]
+        },
+        { label: 'Deal risk', value: capitalize(summary.riskLevel), tone: LEVEL_TONES[summary.riskLevel] },
+        { label: 'Engine', value: result.engine === 'heuristic' ? 'Heuristic estimate' : 'Model backend' }
+      ]
+    },
+    ...list('Key insights', summary.keyInsights),
+    ...list('Critical actions', summary.criticalActions),
+    ...list('Recommended next steps', summary.recommendedNextSteps)
+  ];
+}
+
+function callDetailBlocks(metadata: CallMetadata): ReportBlock[] {
+  const rows: [string, string][] = [
+    ['Prospect', metadata.prospectName],
+    ['Age', metadata.prospectAge],
+    ['Retirement status', metadata.retirementStatus],
+    ['Account types', metadata.accountTypes.join(', ')],
+    ['Account values', metadata.accountValues],
+    ['Family members', metadata.familyMembers],
+    ['Investment experience', metadata.investmentExperience],
+    ['Gold IRA interest', metadata.goldIRAInterest],
+    ['Current concerns', metadata.currentConcerns],
+    ['Timeframe', metadata.timeframe],
+    ['Sales rep', metadata.salesRep],
+    ['Call purpose', metadata.callPurpose],
+    ['Call date', (metadata.callDateTime ?? '').replace('T', ' ')],
+    ['Duration', metadata.duration],
+    ['Previous contact', metadata.previousContact ? 'Yes' : 'No']
+  ];
+  return [{ type: 'table', columns: ['Detail', 'Value'], rows: rows.filter(([, value]) => value.trim()) }];
+}
+
+type SectionBuilder<K extends AnalysisSectionKey> = (
+  section: NonNullable<AnalysisResult['analyses'][K]>,
+  result: AnalysisResult,
+  metadata: CallMetadata
+) => ReportBlock[];
+
+const SECTION_BUILDERS: { [K in AnalysisSectionKey]: SectionBuilder<K> } = {
+  conversation: conversation => {
+    const { metrics } = conversation;
+    return [
+      {
+        type: 'scores',
+        items: SCORECARD_METRICS.map(({ key, label }) => ({ label, value: conversation.conversationScorecard[key] }))
+      },
+      ...(metrics
+        ? [{
+            type: 'metrics' as const,
+            items: [
+              { label: 'Words', value: String(metrics.wordCount) },
+              { label: 'Rep talk ratio', value: `${metrics.repTalkRatio}%` },
+              { label: 'Rep questions', value: String(metrics.repQuestions) },
+              { label: 'Prospect questions', value: String(metrics.prospectQuestions) },
+              ...(metrics.interruptions !== undefined ? [{ label: 'Interruptions', value: String(metrics.interruptions) }] : [])
+            ]
+          }]
+        : []),
+      ...list('Key insights', conversation.keyInsights)
+    ];
+  },
+
+  psychology: psychology => {
+    const { personalityType, communicationStyle } = psychology;
+    return [
+      {
+        type: 'metrics',
+        items: [
+          { label: 'Personality', value: personalityType.primary },
+          ...(personalityType.secondary ? [{ label: 'Secondary', value: personalityType.secondary }] : []),
+          { label: 'Confidence', value: `${personalityType.confidence}%` },
+          ...(psychology.decisionMakingStyle ? [{ label: 'Decision making', value: psychology.decisionMakingStyle }] : [])
+        ]
+      },
+      ...list(
+        'Emotional drivers',
+        psychology.emotionalDrivers?.map(driver => (driver.description ? `${driver.label}: ${driver.description}` : driver.label))
+      ),
+      ...list(
+        'Trust signals',
+        psychology.trustSignals?.map(signal => `${signal.effect === 'builds' ? 'Builds trust' : 'Erodes trust'}: ${signal.label}`)
+      ),
+      ...(communicationStyle ? [{ type: 'paragraph' as const, text: communicationStyle.recommendation }] : []),
+      ...list('Communication tips', communicationStyle?.tips),
+      ...list('Key insights', psychology.keyInsights)
+    ];
+  },
+
+  objections: ({ objections }) =>
+    objections.length === 0
+      ? [{ type: 'paragraph', text: 'No objections were raised.' }]
+      : [
+          {
+            type: 'metrics',
+            items: [
+              { label: 'Raised', value: String(objections.length) },
+              { label: 'Resolved', value: String(objections.filter(objection => objection.resolved).length) }
+            ]
+          },
+          {
+            type: 'table',
+            columns: ['Objection', 'When', 'Status', 'Response', 'Quote'],
+            rows: objections.map(objection => [
+              objectionLabel(objection.category),
+              objection.timestampMs !== undefined ? formatTimestamp(objection.timestampMs) : '',
+              objection.resolved ? 'Resolved' : 'Open',
+              objection.responseQuality !== undefined ? `${objection.responseQuality}/100` : '',
+              objection.quote ? `"${objection.quote}"` : ''
+            ])
+          },
+          ...list(
+            'Response feedback',
+            objections.flatMap(objection => (objection.responseFeedback ? [`${objectionLabel(objection.category)}: ${objection.responseFeedback}`] : []))
+          )
+        ],
+
+  dealRisk: dealRisk => [
+    {
+      type: 'metrics',
+      items: [
+        { label: 'Risk level', value: capitalize(dealRisk.riskLevel), tone: LEVEL_TONES[dealRisk.riskLevel] },
+        ...(dealRisk.riskScore !== undefined ? [{ label: 'Risk score', value: `${dealRisk.riskScore}/100` }] : [])
+      ]
+    },
+    ...(dealRisk.factors?.length
+      ? [{
+          type: 'table' as const,
+          columns: ['Factor', 'Points', 'Evidence'],
+          rows: dealRisk.factors.map(factor => [
+            factor.label,
+            `${factor.contribution}/${factor.weight}`,
+            factor.evidence.join('; ')
+          ])
+        }]
+      : [])
+  ],
+
+  qualification: qualification => {
+    const { qualificationSummary: summary } = qualification;
+    return [
+      {
+        type: 'metrics',
+        items: [
+          { label: 'Opportunity score', value: `${summary.opportunityScore}/100` },
+          {
+            label: 'Readiness',
+            value: capitalize(summary.investmentReadiness),
+            tone: READINESS_TONES[summary.investmentReadiness]
+          },
+          ...(qualification.rolloverAmount !== undefined
+            ? [{ label: 'Rollover', value: formatDollars(qualification.rolloverAmount) }]
+            : []),
+          ...(qualification.riskAdjustment ? [{ label: 'Risk deduction', value: `-${qualification.riskAdjustment} pts` }] : [])
+        ]
+      },
+      { type: 'paragraph', text: `Recommendation: ${capitalize(summary.recommendation.replace(/_/g, ' '))}` },
+      ...(qualification.factors?.length
+        ? [{
+            type: 'table' as const,
+            columns: ['Factor', 'Status', 'Points', 'Detail'],
+            rows: qualification.factors.map(factor => [
+              factor.label,
+              capitalize(factor.status),
+              `${factor.contribution}/${factor.weight}`,
+              factor.detail
+            ])
+          }]
+        : []),
+      ...list('Key insights', qualification.keyInsights)
+    ];
+  },
+
+  actionPlan: (actionPlan, result, metadata) => {
+    const tasks = resolveActionTasks(actionPlan, callTimeOf(metadata, result.timestamp), metadata.salesRep);
+    return [
+      ...list('Critical actions', actionPlan.criticalActions),
+      ...list('Next steps', actionPlan.nextSteps),
+      ...(tasks.length
+        ? [{
+            type: 'table' as const,
+            columns: ['Task', 'Owner', 'Due', 'Priority', 'Status'],
+            rows: tasks.map(task => [
+              task.title,
+              task.owner,
+              task.dueAt ? formatDate(task.dueAt) : task.dueText ?? '',
+              capitalize(task.priority),
+              task.status === 'done' ? 'Done' : 'Open'
+            ])
+          }]
+        : [])
+    ];
+  }
+};
+
+function analysisSectionBlocks<K extends AnalysisSectionKey>(
+  key: K,
+  result: AnalysisResult,
+  metadata: CallMetadata
+): ReportBlock[] {
+  const section = result.analyses[key];
+  if (!section) {
+    return [{ type: 'note', text: `Not available: ${result.sectionErrors[key] ?? 'the backend did not return this section'}.` }];
+  }
+  return SECTION_BUILDERS[key](section as NonNullable<AnalysisResult['analyses'][K]>, result, metadata);
+}
+
+/**
+ * Build a coaching report with the chosen sections, in the standard order
+ */
+export function buildCoachingReport(
+  result: AnalysisResult,
+  metadata: CallMetadata,
+  { sections = DEFAULT_REPORT_SECTIONS, generatedAt = new Date() }: ReportOptions = {}
+): CoachingReport {
+  const chosen = new Set(sections);
+  const subtitle = [metadata.salesRep && `Sales rep: ${metadata.salesRep}`, `Call analyzed ${formatDate(result.timestamp)}`]
+    .filter(Boolean)
+    .join(' · ');
+
+  return {
+    title: `Coaching Report: ${metadata.prospectName || 'Unnamed prospect'}`,
+    subtitle,
+    analysisId: result.analysisId,
+    generatedAt: formatDate(generatedAt),
+    notes: result.engine === 'heuristic'
+      ? ['Scores come from the offline rule-based engine, not the model backend. Treat them as rough estimates.']
+      : [],
+    sections: REPORT_SECTIONS.filter(({ id }) => chosen.has(id)).map(({ id, label }) => ({
+      id,
+      title: label,
+      blocks:
+        id === 'summary'
+          ? summaryBlocks(result)
+          : id === 'callDetails'
+            ? callDetailBlocks(metadata)
+            : analysisSectionBlocks(id, result, metadata)
+    }))
+  };
+}
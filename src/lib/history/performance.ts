@@ -0,0 +1,133 @@
+/**
+ * Rep performance aggregated across the analysis history
+ *
+ * Sections that failed are left out of averages rather than counted as zero,
+ * the same as the batch summary.
+ */
+
+import { SCORECARD_METRICS } from '@/lib/analysis/compare';
+import type { ConversationScorecard, RiskLevel } from '@/lib/analysis/types';
+import { callDateOf, type HistoryEntry } from './store';
+
+export const UNASSIGNED_REP = 'Unassigned';
+
+// Qualification score buckets, lowest first; `min` is inclusive
+export const SCORE_BUCKETS = [
+  { label: '0-39', min: 0 },
+  { label: '40-59', min: 40 },
+  { label: '60-79', min: 60 },
+  { label: '80-100', min: 80 }
+] as const;
+
+export type ScorecardKey = keyof ConversationScorecard;
+
+export interface TrendPoint {
+  // Monday of the week, YYYY-MM-DD in local time
+  weekStart: string;
+  calls: number;
+  averageScore: number | null;
+  averageQuality: number | null;
+}
+
+export interface RepPerformance {
+  salesRep: string;
+  calls: number;
+  averageScore: number | null;
+  averageScorecard: Record<ScorecardKey, number | null>;
+  // Counts per SCORE_BUCKETS entry, same order
+  scoreDistribution: number[];
+  riskMix: Record<RiskLevel | 'unknown', number>;
+  trend: TrendPoint[];
+  // Lowest average skill dimension; overall quality is a roll-up, so it is skipped
+  weakestDimension: { key: ScorecardKey; label: string; average: number } | null;
+}
+
+function average(values: number[]): number | null {
+  return values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+function qualificationScore(entry: HistoryEntry): number[] {
+  const score = entry.result.analyses.qualification?.qualificationSummary.opportunityScore;
+  return score === undefined ? [] : [score];
+}
+
+function scorecardValue(entry: HistoryEntry, key: ScorecardKey): number[] {
+  const value = entry.result.analyses.conversation?.conversationScorecard[key];
+  return value === undefined ? [] : [value];
+}
+
+function weekStart(callDate: Date): string {
+  const date = new Date(callDate);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.toLocaleDateString('en-CA');
+}
+
+function weeklyTrend(entries: HistoryEntry[]): TrendPoint[] {
+  const weeks = new Map<string, HistoryEntry[]>();
+  for (const entry of entries) {
+    const week = weekStart(callDateOf(entry));
+    weeks.set(week, [...(weeks.get(week) ?? []), entry]);
+  }
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, calls]) => ({
+      weekStart: week,
+      calls: calls.length,
+      averageScore: average(calls.flatMap(qualificationScore)),
+      averageQuality: average(calls.flatMap(entry => scorecardValue(entry, 'overallQuality')))
+    }));
+}
+
+/**
+ * Aggregate a set of calls under one label (a rep, or the whole team)
+ */
+export function summarizePerformance(salesRep: string, entries: HistoryEntry[]): RepPerformance {
+  const averageScorecard = Object.fromEntries(
+    SCORECARD_METRICS.map(({ key }) => [key, average(entries.flatMap(entry => scorecardValue(entry, key)))])
+  ) as Record<ScorecardKey, number | null>;
+
+  const scoreDistribution = SCORE_BUCKETS.map(() => 0);
+  for (const score of entries.flatMap(qualificationScore)) {
+    scoreDistribution[SCORE_BUCKETS.findLastIndex(bucket => score >= bucket.min)]++;
+  }
+
+  const riskMix: RepPerformance['riskMix'] = { low: 0, medium: 0, high: 0, unknown: 0 };
+  entries.forEach(entry => riskMix[entry.result.summary.riskLevel]++);
+
+  let weakestDimension: RepPerformance['weakestDimension'] = null;
+  for (const { key, label } of SCORECARD_METRICS) {
+    const value = averageScorecard[key];
+    if (key === 'overallQuality' || value === null) continue;
+    if (!weakestDimension || value < weakestDimension.average) {
+      weakestDimension = { key, label, average: value };
+    }
+  }
+
+  return {
+    salesRep,
+    calls: entries.length,
+    averageScore: average(entries.flatMap(qualificationScore)),
+    averageScorecard,
+    scoreDistribution,
+    riskMix,
+    trend: weeklyTrend(entries),
+    weakestDimension
+  };
+}
+
+/**
+ * One summary per sales rep, busiest first
+ */
+export function summarizeReps(entries: HistoryEntry[]): RepPerformance[] {
+  const byRep = new Map<string, HistoryEntry[]>();
+  for (const entry of entries) {
+    const rep = entry.metadata.salesRep.trim() || UNASSIGNED_REP;
+    byRep.set(rep, [...(byRep.get(rep) ?? []), entry]);
+  }
+
+  return [...byRep.entries()]
+    .map(([rep, calls]) => summarizePerformance(rep, calls))
+    .sort((a, b) => b.calls - a.calls || a.salesRep.localeCompare(b.salesRep));
+}
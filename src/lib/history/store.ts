@@ -0,0 +1,212 @@
+/**
+ * Analysis history
+ *
+ * Persists each analysis with the transcript and metadata it was produced
+ * from in IndexedDB, keyed by analysisId. localStorage is too small for
+ * transcripts, so history lives in its own database. Entries are sealed by
+ * storageVault; only the ID and timestamps stay in the clear for sorting and
+ * retention, so nothing can be saved or read while the vault is locked.
+ */
+
+import { callTimeOf } from '@/lib/analysis/tasks';
+import type { AnalysisResult, CallMetadata } from '@/lib/analysis/types';
+import type { SpeakerMap } from '@/lib/transcript/types';
+import { storageVault, VaultLockedError, type SealedValue } from '@/lib/vault';
+
+const DB_NAME = 'goldira-history';
+const DB_VERSION = 1;
+const STORE = 'analyses';
+
+export interface HistoryEntry {
+  analysisId: string;
+  savedAt: string;
+  transcript: string;
+  metadata: CallMetadata;
+  speakerMap: SpeakerMap;
+  result: AnalysisResult;
+}
+
+// An entry as stored: sealed, with what sorting and retention need left in the clear
+interface SealedEntry extends SealedValue {
+  analysisId: string;
+  savedAt: string;
+  // result.timestamp
+  timestamp: string;
+}
+
+export interface HistoryListing {
+  entries: HistoryEntry[];
+  // Entries the current key cannot open: the vault is locked or they were sealed in an earlier session
+  locked: number;
+}
+
+export interface HistoryFilter {
+  // Matched against the prospect name
+  query?: string;
+  salesRep?: string;
+  // Inclusive YYYY-MM-DD bounds on the call date
+  from?: string;
+  to?: string;
+}
+
+export class HistoryStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryStorageError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new HistoryStorageError('IndexedDB is not available in this browser'));
+  }
+
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'analysisId' });
+      store.createIndex('savedAt', 'savedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(new HistoryStorageError(`Could not open history database: ${request.error?.message ?? 'unknown error'}`));
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Run one request in its own transaction and resolve with its result
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(new HistoryStorageError(transaction.error?.message ?? 'History operation failed'));
+    transaction.onabort = () => reject(new HistoryStorageError(transaction.error?.message ?? 'History operation aborted'));
+  });
+}
+
+async function putEntry(entry: HistoryEntry): Promise<void> {
+  const sealed: SealedEntry = {
+    analysisId: entry.analysisId,
+    savedAt: entry.savedAt,
+    timestamp: entry.result.timestamp,
+    ...(await storageVault.encrypt(entry))
+  };
+  await withStore('readwrite', store => store.put(sealed));
+}
+
+/**
+ * Throws VaultLockedError while secure storage is locked
+ */
+export async function saveAnalysis(entry: Omit<HistoryEntry, 'savedAt'>): Promise<HistoryEntry> {
+  const saved: HistoryEntry = { ...entry, savedAt: new Date().toISOString() };
+  await putEntry(saved);
+  return saved;
+}
+
+/**
+ * Stored analyses the current key can open, newest first. Entries it cannot
+ * open are counted and kept, since unlocking with the passphrase may restore them.
+ */
+export async function loadHistory(): Promise<HistoryListing> {
+  const stored = await withStore<SealedEntry[]>('readonly', store => store.getAll());
+  const entries: HistoryEntry[] = [];
+  let locked = 0;
+
+  for (const item of stored) {
+    try {
+      entries.push(await storageVault.decrypt<HistoryEntry>(item));
+    } catch {
+      locked++;
+    }
+  }
+
+  return { entries: entries.sort((a, b) => b.result.timestamp.localeCompare(a.result.timestamp)), locked };
+}
+
+export async function deleteAnalysis(analysisId: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(analysisId));
+}
+
+/**
+ * Delete analyses run before `cutoff`, for the data-retention setting.
+ * Works while locked, as the timestamps are stored in the clear.
+ */
+export async function pruneHistory(cutoff: Date): Promise<number> {
+  const stored = await withStore<SealedEntry[]>('readonly', store => store.getAll());
+  const stale = stored.filter(item => new Date(item.timestamp) < cutoff);
+  await Promise.all(stale.map(item => deleteAnalysis(item.analysisId)));
+  return stale.length;
+}
+
+/**
+ * When the call took place, or when it was analyzed if no call date was entered
+ */
+export function callDateOf(entry: HistoryEntry): Date {
+  return callTimeOf(entry.metadata, entry.result.timestamp);
+}
+
+export function filterHistory(entries: HistoryEntry[], { query, salesRep, from, to }: HistoryFilter): HistoryEntry[] {
+  const needle = query?.trim().toLowerCase();
+  return entries.filter(entry => {
+    // en-CA formats as YYYY-MM-DD in the user's time zone
+    const date = callDateOf(entry).toLocaleDateString('en-CA');
+    return (
+      (!needle || entry.metadata.prospectName.toLowerCase().includes(needle)) &&
+      (!salesRep || entry.metadata.salesRep === salesRep) &&
+      (!from || date >= from) &&
+      (!to || date <= to)
+    );
+  });
+}
+
+/**
+ * Distinct sales reps across the history, for filter options
+ */
+export function historySalesReps(entries: HistoryEntry[]): string[] {
+  return [...new Set(entries.map(entry => entry.metadata.salesRep).filter(Boolean))].sort();
+}
+
+// Re-encrypt the readable entries when the vault key changes, or delete the unreadable ones
+storageVault.registerStore({
+  async unseal() {
+    let entries: HistoryEntry[];
+    try {
+      ({ entries } = await loadHistory());
+    } catch (error) {
+      if (error instanceof HistoryStorageError) return async () => {};
+      throw error;
+    }
+    return async () => {
+      for (const entry of entries) await putEntry(entry);
+    };
+  },
+
+  async purge() {
+    let stored: SealedEntry[];
+    try {
+      stored = await withStore<SealedEntry[]>('readonly', store => store.getAll());
+    } catch (error) {
+      if (error instanceof HistoryStorageError) return 0;
+      throw error;
+    }
+    let removed = 0;
+    for (const item of stored) {
+      try {
+        await storageVault.decrypt(item);
+      } catch (error) {
+        if (error instanceof VaultLockedError) throw error;
+        await deleteAnalysis(item.analysisId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+});
@@ -0,0 +1,115 @@
+/**
+ * MCP client for the Gold IRA analysis server
+ *
+ * Wraps the SDK client with tool-result parsing and the staged
+ * transcript analysis flow.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { runAnalysisPipeline, type PipelineOptions } from '@/lib/analysis/pipeline';
+import type { AnalysisResult, CallMetadata } from '@/lib/analysis/types';
+
+export type TransportFactory = () => Transport | Promise<Transport>;
+
+export class McpClientError extends Error {
+  constructor(message: string, readonly tool?: string) {
+    super(message);
+    this.name = 'McpClientError';
+  }
+}
+
+interface ToolContent {
+  type: string;
+  text?: string;
+}
+
+/**
+ * Extract the JSON payload from a tool result, preferring structured content
+ */
+function parseToolResult(tool: string, result: Record<string, unknown>): unknown {
+  const content = (result.content ?? []) as ToolContent[];
+  const text = content
+    .filter(item => item.type === 'text' && typeof item.text === 'string')
+    .map(item => item.text)
+    .join('');
+
+  if (result.isError) {
+    throw new McpClientError(text || `Tool ${tool} reported an error`, tool);
+  }
+
+  if (result.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new McpClientError(`Tool ${tool} returned non-JSON output`, tool);
+  }
+}
+
+export class AnalysisMcpClient {
+  private readonly client = new Client({ name: 'gold-ira-analysis-web', version: '0.1.0' });
+  private connected = false;
+
+  constructor(private readonly createTransport: TransportFactory) {}
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+    await this.client.connect(await this.createTransport());
+    this.connected = true;
+  }
+
+  async close(): Promise<void> {
+    if (!this.connected) return;
+    this.connected = false;
+    await this.client.close();
+  }
+
+  async listTools(): Promise<string[]> {
+    await this.connect();
+    const { tools } = await this.client.listTools();
+    return tools.map(tool => tool.name);
+  }
+
+  async callTool<T = unknown>(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    await this.connect();
+    const result = await this.client.callTool({ name, arguments: args }, undefined, { signal });
+    return parseToolResult(name, result) as T;
+  }
+
+  /**
+   * Run every analysis prompt through the staged pipeline
+   */
+  async analyzeTranscript(
+    transcript: string,
+    metadata: CallMetadata,
+    options: PipelineOptions = {}
+  ): Promise<AnalysisResult> {
+    await this.connect();
+    return runAnalysisPipeline(
+      (stage, input, signal) => this.callTool(stage.tool, { ...input }, signal),
+      transcript,
+      metadata,
+      options
+    );
+  }
+}
+
+/**
+ * Connect, analyze and disconnect in one call
+ */
+export async function analyzeWithMcp(
+  createTransport: TransportFactory,
+  transcript: string,
+  metadata: CallMetadata,
+  options: PipelineOptions = {}
+): Promise<AnalysisResult> {
+  const client = new AnalysisMcpClient(createTransport);
+  try {
+    return await client.analyzeTranscript(transcript, metadata, options);
+  } finally {
+    await client.close();
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Node-only MCP transports
+ *
+ * Import this module from server code only; it pulls in `child_process`.
+ */
+
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  DEFAULT_MCP_HTTP_URL,
+  createHttpTransport,
+  type McpBackendSelection,
+  type McpStdioTransportConfig,
+  type McpTransportConfig
+} from './transports';
+
+export class McpBackendNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'McpBackendNotAllowedError';
+  }
+}
+
+export function createStdioTransport(config: McpStdioTransportConfig): StdioClientTransport {
+  return new StdioClientTransport({
+    command: config.command,
+    args: config.args ?? [],
+    env: { ...getDefaultEnvironment(), ...config.env },
+    cwd: config.cwd,
+    stderr: 'inherit'
+  });
+}
+
+export function createTransport(config: McpTransportConfig): Transport {
+  return config.transport === 'stdio' ? createStdioTransport(config) : createHttpTransport(config);
+}
+
+/**
+ * Resolve the analysis backend from server environment variables
+ *
+ * MCP_TRANSPORT=stdio uses MCP_SERVER_COMMAND / MCP_SERVER_ARGS; otherwise
+ * MCP_SERVER_URL is used with an optional MCP_API_KEY bearer token.
+ */
+export function getServerMcpConfig(env: NodeJS.ProcessEnv = process.env): McpTransportConfig {
+  if (env.MCP_TRANSPORT === 'stdio') {
+    return {
+      transport: 'stdio',
+      command: env.MCP_SERVER_COMMAND || 'node',
+      args: env.MCP_SERVER_ARGS ? env.MCP_SERVER_ARGS.split(' ').filter(Boolean) : ['scripts/mock-mcp-server.mjs']
+    };
+  }
+
+  return {
+    transport: 'http',
+    url: env.MCP_SERVER_URL || DEFAULT_MCP_HTTP_URL,
+    headers: env.MCP_API_KEY ? { Authorization: `Bearer ${env.MCP_API_KEY}` } : undefined
+  };
+}
+
+function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a user's backend selection against the server configuration.
+ * Only the server's own endpoint and those listed in the comma-separated
+ * MCP_ALLOWED_URLS can be selected, and the server's API key is only sent to
+ * its own endpoint. The stdio transport runs the server's command and can
+ * only be selected when the server itself is configured with MCP_TRANSPORT=stdio.
+ */
+export function resolveMcpConfig(
+  selection: McpBackendSelection | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): McpTransportConfig {
+  if (!selection) return getServerMcpConfig(env);
+  if (selection.transport === 'stdio') {
+    if (env.MCP_TRANSPORT !== 'stdio') {
+      throw new McpBackendNotAllowedError('The stdio analysis backend is not enabled on the server');
+    }
+    return getServerMcpConfig(env);
+  }
+
+  const serverConfig = getServerMcpConfig({ ...env, MCP_TRANSPORT: 'http' });
+  const url = normalizeUrl(selection.url ?? '');
+  if (url && serverConfig.transport === 'http' && url === normalizeUrl(serverConfig.url)) {
+    return serverConfig;
+  }
+
+  const allowed = (env.MCP_ALLOWED_URLS ?? '').split(',').map(item => normalizeUrl(item.trim())).filter(Boolean);
+  if (!url || !allowed.includes(url)) {
+    throw new McpBackendNotAllowedError(`Analysis backend ${selection.url ?? ''} is not allowed by the server`);
+  }
+  return { transport: 'http', url };
+}
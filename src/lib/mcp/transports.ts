@@ -0,0 +1,39 @@
+/**
+ * MCP transport configuration
+ *
+ * Browser-safe: only the streamable-HTTP transport is constructed here.
+ * The stdio transport spawns a child process and lives in `./node`.
+ */
+
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+
+export interface McpHttpTransportConfig {
+  transport: 'http';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface McpStdioTransportConfig {
+  transport: 'stdio';
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+export type McpTransportConfig = McpHttpTransportConfig | McpStdioTransportConfig;
+
+// A user's choice of backend, sent with each request; the server decides whether to honor it
+export interface McpBackendSelection {
+  transport: 'http' | 'stdio';
+  // Streamable-HTTP endpoint, for the http transport
+  url?: string;
+}
+
+export const DEFAULT_MCP_HTTP_URL = 'http://localhost:3001/mcp';
+
+export function createHttpTransport(config: McpHttpTransportConfig): StreamableHTTPClientTransport {
+  return new StreamableHTTPClientTransport(new URL(config.url), {
+    requestInit: config.headers ? { headers: config.headers } : undefined
+  });
+}
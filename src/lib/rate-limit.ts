@@ -0,0 +1,59 @@
+/**
+ * Per-client rate limits for API routes
+ *
+ * Import this module from server code only; it reads TRUSTED_PROXY_COUNT
+ * from the environment.
+ */
+
+import { FrontendSecurity } from '@/lib/security';
+
+type Limiter = ReturnType<typeof FrontendSecurity.createRateLimiter>;
+
+/**
+ * Client address for rate limiting. Route handlers cannot see the socket, and
+ * X-Forwarded-For is only set by Next.js when the client did not send one, so
+ * the header is read only behind TRUSTED_PROXY_COUNT proxies, each of which
+ * appends the address it received the request from. Without a trusted proxy
+ * every client shares one limit.
+ */
+function clientKey(headers: Headers, env: NodeJS.ProcessEnv = process.env): string {
+  const proxies = Number.parseInt(env.TRUSTED_PROXY_COUNT ?? '', 10);
+  if (!(proxies > 0)) return 'direct';
+  const forwarded = (headers.get('x-forwarded-for') ?? '').split(',').map(item => item.trim()).filter(Boolean);
+  return forwarded.length >= proxies ? forwarded[forwarded.length - proxies] : 'direct';
+}
+
+/**
+ * A limit of `maxRequests` per `windowMs` for each client of a route
+ */
+export function createClientRateLimit({ maxRequests, windowMs }: { maxRequests: number; windowMs: number }) {
+  const limiters = new Map<string, Limiter>();
+  let lastSweep = Date.now();
+
+  // Drop limiters with no requests left in their window, at most once per window
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    for (const [key, limiter] of limiters) {
+      if (limiter.getRemaining() === maxRequests) limiters.delete(key);
+    }
+  };
+
+  return {
+    /**
+     * Count a request; when it is over the limit, also says how many seconds
+     * to wait before retrying
+     */
+    check(headers: Headers): { allowed: boolean; retryAfter: number } {
+      sweep(Date.now());
+      const key = clientKey(headers);
+      let limiter = limiters.get(key);
+      if (!limiter) {
+        limiter = FrontendSecurity.createRateLimiter(maxRequests, windowMs);
+        limiters.set(key, limiter);
+      }
+      const { allowed, resetTime } = limiter.checkLimit();
+      return { allowed, retryAfter: Math.max(1, Math.ceil(((resetTime ?? Date.now()) - Date.now()) / 1000)) };
+    }
+  };
+}
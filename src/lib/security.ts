@@ -4,37 +4,75 @@
  * Provides client-side security measures for the analysis interface
  */
 
+import { storageVault, VaultLockedError, type SealedValue } from './vault';
+
+export interface FileValidationRules {
+  allowedTypes: readonly string[];
+  // Fallback when the browser reports an empty or generic MIME type (e.g. .srt, .vtt)
+  allowedExtensions: readonly string[];
+  maxSize: number;
+}
+
+interface StoredRecord extends SealedValue {
+  expiration: number | null;
+}
+
+function storedKeys(): string[] {
+  return Object.keys(localStorage).filter(key => key.startsWith('goldira_'));
+}
+
+function isExpired(record: { expiration?: number | null } | null): boolean {
+  return !!record?.expiration && Date.now() > record.expiration;
+}
+
+async function sealRecord(value: unknown, expiration: number | null): Promise<StoredRecord> {
+  return { ...(await storageVault.encrypt({ value, timestamp: Date.now() })), expiration };
+}
+
 export class FrontendSecurity {
   // Content Security Policy helpers
   static readonly ALLOWED_FILE_TYPES = [
     'text/plain',
+    'text/vtt',
+    'application/x-subrip',
+    'application/json',
     'application/pdf',
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
   ] as const;
   
+  static readonly ALLOWED_FILE_EXTENSIONS = ['.txt', '.vtt', '.srt', '.json', '.pdf', '.docx'] as const;
+  
   static readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
   static readonly MAX_TRANSCRIPT_LENGTH = 100000; // 100K characters
+  static readonly MIN_TRANSCRIPT_WORDS = 50;
+  
+  static readonly DEFAULT_FILE_RULES: FileValidationRules = {
+    allowedTypes: FrontendSecurity.ALLOWED_FILE_TYPES,
+    allowedExtensions: FrontendSecurity.ALLOWED_FILE_EXTENSIONS,
+    maxSize: FrontendSecurity.MAX_FILE_SIZE
+  };
   
   /**
    * Validate file upload before processing
    */
-  static validateFileUpload(file: File): {
+  static validateFileUpload(file: File, rules: FileValidationRules = this.DEFAULT_FILE_RULES): {
     valid: boolean;
     error?: string;
   } {
     // Check file type
-    if (!this.ALLOWED_FILE_TYPES.includes(file.type as any)) {
+    const extension = file.name.includes('.') ? `.${file.name.split('.').pop()!.toLowerCase()}` : '';
+    if (!rules.allowedTypes.includes(file.type) && !rules.allowedExtensions.includes(extension)) {
       return {
         valid: false,
-        error: `Invalid file type. Allowed types: ${this.ALLOWED_FILE_TYPES.join(', ')}`
+        error: `Invalid file type. Allowed files: ${rules.allowedExtensions.join(', ')}`
       };
     }
     
     // Check file size
-    if (file.size > this.MAX_FILE_SIZE) {
+    if (file.size > rules.maxSize) {
       return {
         valid: false,
-        error: `File too large. Maximum size: ${this.MAX_FILE_SIZE / 1024 / 1024}MB`
+        error: `File too large. Maximum size: ${rules.maxSize / 1024 / 1024}MB`
       };
     }
     
@@ -89,10 +127,10 @@ export class FrontendSecurity {
     
     // Check for minimum meaningful content
     const wordCount = transcript.trim().split(/\s+/).length;
-    if (wordCount < 50) {
+    if (wordCount < this.MIN_TRANSCRIPT_WORDS) {
       return {
         valid: false,
-        error: 'Transcript appears too short for meaningful analysis (minimum 50 words)'
+        error: `Transcript appears too short for meaningful analysis (minimum ${this.MIN_TRANSCRIPT_WORDS} words, found ${wordCount})`
       };
     }
     
@@ -125,6 +163,15 @@ export class FrontendSecurity {
     const requests: number[] = [];
     
     return {
+      /**
+       * Change the limits in place, e.g. from user settings; requests
+       * already made still count against the new window
+       */
+      configure(nextMaxRequests: number, nextWindowMs: number): void {
+        maxRequests = nextMaxRequests;
+        windowMs = nextWindowMs;
+      },
+      
       checkLimit(): { allowed: boolean; resetTime?: number } {
         const now = Date.now();
         const windowStart = now - windowMs;
@@ -157,39 +204,53 @@ export class FrontendSecurity {
   }
   
   /**
-   * Secure local storage helper
+   * Encrypted local storage helper
+   *
+   * Values are sealed with AES-GCM by storageVault, so reads and writes are
+   * async. Only the expiry stays in the clear, so expired items can be purged
+   * while storage is locked.
    */
   static secureStorage = {
-    set(key: string, value: any, expirationMs?: number): void {
-      const data = {
-        value,
-        timestamp: Date.now(),
-        expiration: expirationMs ? Date.now() + expirationMs : null
-      };
-      
+    /**
+     * Throws VaultLockedError while storage is locked rather than writing
+     * the value under a new key
+     */
+    async set(key: string, value: unknown, expirationMs?: number): Promise<void> {
+      const record = await sealRecord(value, expirationMs ? Date.now() + expirationMs : null);
       try {
-        localStorage.setItem(`goldira_${key}`, JSON.stringify(data));
+        localStorage.setItem(`goldira_${key}`, JSON.stringify(record));
       } catch (error) {
         console.warn('Failed to save to localStorage:', error);
       }
     },
     
-    get<T>(key: string): T | null {
+    async get<T>(key: string): Promise<T | null> {
       try {
         const item = localStorage.getItem(`goldira_${key}`);
         if (!item) return null;
         
-        const data = JSON.parse(item);
+        const record = JSON.parse(item);
         
         // Check expiration
-        if (data.expiration && Date.now() > data.expiration) {
+        if (isExpired(record)) {
           localStorage.removeItem(`goldira_${key}`);
           return null;
         }
         
-        return data.value;
+        // Plain JSON written before encryption was added: seal it once unlocked
+        if (!('iv' in record)) {
+          if (!storageVault.status().locked) {
+            localStorage.setItem(`goldira_${key}`, JSON.stringify(await sealRecord(record.value, record.expiration ?? null)));
+          }
+          return record.value as T;
+        }
+        
+        return (await storageVault.decrypt<{ value: T }>(record)).value;
       } catch (error) {
-        console.warn('Failed to read from localStorage:', error);
+        // Locked, or sealed with another key: keep the value for a later unlock
+        if (!(error instanceof VaultLockedError || (error instanceof DOMException && error.name === 'OperationError'))) {
+          console.warn('Failed to read from localStorage:', error);
+        }
         return null;
       }
     },
@@ -205,11 +266,26 @@ export class FrontendSecurity {
     clear(): void {
       try {
         // Remove all goldira-prefixed items
-        const keys = Object.keys(localStorage).filter(key => key.startsWith('goldira_'));
-        keys.forEach(key => localStorage.removeItem(key));
+        storedKeys().forEach(key => localStorage.removeItem(key));
       } catch (error) {
         console.warn('Failed to clear localStorage:', error);
       }
+    },
+    
+    /**
+     * Re-encrypt every stored value, here and in the other stores registered
+     * with the vault, under a new key derived from `passphrase` or a fresh
+     * session key when omitted
+     */
+    rotateKey(passphrase?: string): Promise<void> {
+      return storageVault.rotate(passphrase);
+    },
+    
+    /**
+     * Wipe the in-memory key; values stay encrypted until unlocked again
+     */
+    lock(): void {
+      storageVault.lock();
     }
   };
   
@@ -237,25 +313,72 @@ export class FrontendSecurity {
     if (typeof window !== 'undefined') {
       window.addEventListener('securitypolicyviolation', this.handleCSPViolation);
       
-      // Clear any expired storage items on init
+      // Clear any expired storage items on init; expiry is readable without the key
       try {
-        const keys = Object.keys(localStorage).filter(key => key.startsWith('goldira_'));
-        keys.forEach(key => {
-          const value = this.secureStorage.get(key.replace('goldira_', ''));
-          // get() method automatically removes expired items
+        storedKeys().forEach(key => {
+          if (isExpired(JSON.parse(localStorage.getItem(key) ?? 'null'))) {
+            localStorage.removeItem(key);
+          }
         });
       } catch (error) {
         console.warn('Failed to clean expired storage:', error);
       }
+
+      // Without a passphrase each visit gets its own session key
+      if (!storageVault.status().hasPassphrase) {
+        storageVault.startSession().catch(error => console.warn('Failed to start secure storage session:', error));
+      }
     }
   }
 }
 
+// Values in localStorage are re-encrypted together with the other sealed stores
+storageVault.registerStore({
+  async unseal() {
+    const entries: { key: string; value: unknown; expiration: number | null }[] = [];
+    for (const key of storedKeys()) {
+      const record = JSON.parse(localStorage.getItem(key) ?? 'null');
+      if (!record || isExpired(record)) continue;
+      try {
+        const value = 'iv' in record ? (await storageVault.decrypt<{ value: unknown }>(record)).value : record.value;
+        entries.push({ key, value, expiration: record.expiration ?? null });
+      } catch {
+        // Unreadable with the current key; left as it is
+      }
+    }
+    return async () => {
+      for (const { key, value, expiration } of entries) {
+        localStorage.setItem(key, JSON.stringify(await sealRecord(value, expiration)));
+      }
+    };
+  },
+
+  async purge() {
+    let removed = 0;
+    for (const key of storedKeys()) {
+      const record = JSON.parse(localStorage.getItem(key) ?? 'null');
+      if (!record || !('iv' in record)) continue;
+      try {
+        await storageVault.decrypt(record);
+      } catch (error) {
+        if (error instanceof VaultLockedError) throw error;
+        localStorage.removeItem(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+});
+
+// Default limits; users can change the browser-side ones in Settings
+export const ANALYSIS_RATE_LIMIT = { maxRequests: 5, windowMs: 60 * 1000 };
+export const API_RATE_LIMIT = { maxRequests: 100, windowMs: 15 * 60 * 1000 };
+
 // Analysis request rate limiter (5 requests per minute)
-export const analysisRateLimiter = FrontendSecurity.createRateLimiter(5, 60 * 1000);
+export const analysisRateLimiter = FrontendSecurity.createRateLimiter(ANALYSIS_RATE_LIMIT.maxRequests, ANALYSIS_RATE_LIMIT.windowMs);
 
 // General API rate limiter (100 requests per 15 minutes)  
-export const apiRateLimiter = FrontendSecurity.createRateLimiter(100, 15 * 60 * 1000);
+export const apiRateLimiter = FrontendSecurity.createRateLimiter(API_RATE_LIMIT.maxRequests, API_RATE_LIMIT.windowMs);
 
 // Initialize security on module load
 if (typeof window !== 'undefined') {
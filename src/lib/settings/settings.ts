@@ -0,0 +1,151 @@
+/**
+ * User settings
+ *
+ * Backend, pipeline, scoring, rate-limit, retention and CRM mapping
+ * preferences, with validation shared by the settings panel and JSON import.
+ */
+
+import { z } from 'zod';
+import { DEFAULT_QUALIFICATION_MODEL, qualificationModelSchema, type QualificationModel } from '@/lib/analysis/qualification';
+import { RISK_THRESHOLDS, riskThresholdsSchema, type RiskThresholds } from '@/lib/analysis/risk';
+import { ANALYSIS_STAGES, DEFAULT_STAGE_ORDER } from '@/lib/analysis/stages';
+import type { EngineSelection } from '@/lib/analysis/types';
+import { crmMappingSchema, DEFAULT_CRM_MAPPING } from '@/lib/crm/mapping';
+import type { CrmMapping } from '@/lib/crm/types';
+import { DEFAULT_MCP_HTTP_URL, type McpBackendSelection } from '@/lib/mcp/transports';
+import { ANALYSIS_RATE_LIMIT, API_RATE_LIMIT } from '@/lib/security';
+
+export interface BackendSettings {
+  // 'server' uses the backend configured on the server through environment variables
+  transport: 'server' | 'http' | 'stdio';
+  url: string;
+}
+
+export interface RateLimitSettings {
+  maxRequests: number;
+  windowMinutes: number;
+}
+
+export interface AppSettings {
+  backend: BackendSettings;
+  engine: EngineSelection;
+  // Prompt numbers in the order they run
+  stageOrder: number[];
+  riskThresholds: RiskThresholds;
+  // Also holds the readiness thresholds
+  qualificationModel: QualificationModel;
+  rateLimits: {
+    analysis: RateLimitSettings;
+    api: RateLimitSettings;
+  };
+  // Saved analyses older than this many days are deleted; 0 keeps them forever
+  retentionDays: number;
+  crmMapping: CrmMapping;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  backend: { transport: 'server', url: DEFAULT_MCP_HTTP_URL },
+  engine: 'auto',
+  stageOrder: [...DEFAULT_STAGE_ORDER],
+  riskThresholds: RISK_THRESHOLDS,
+  qualificationModel: DEFAULT_QUALIFICATION_MODEL,
+  rateLimits: {
+    analysis: { maxRequests: ANALYSIS_RATE_LIMIT.maxRequests, windowMinutes: ANALYSIS_RATE_LIMIT.windowMs / 60_000 },
+    api: { maxRequests: API_RATE_LIMIT.maxRequests, windowMinutes: API_RATE_LIMIT.windowMs / 60_000 }
+  },
+  retentionDays: 0,
+  crmMapping: DEFAULT_CRM_MAPPING
+};
+
+const rateLimitSchema = z.object({
+  maxRequests: z.int().min(1, 'Allow at least one request per window').max(1000),
+  windowMinutes: z.number().min(0.5, 'Rate-limit windows must be at least 30 seconds').max(24 * 60)
+});
+
+export function describeRateLimit({ maxRequests, windowMinutes }: RateLimitSettings): string {
+  return `${maxRequests} per ${windowMinutes === 1 ? 'minute' : `${windowMinutes} minutes`}`;
+}
+
+// The server allows no more requests than the default limits, so the browser
+// may only be stricter: no more requests, over no shorter a window
+function serverCappedSchema(serverLimit: RateLimitSettings, requests: string) {
+  return rateLimitSchema.refine(
+    limit => limit.maxRequests <= serverLimit.maxRequests && limit.windowMinutes >= serverLimit.windowMinutes,
+    `The server limits ${requests} to ${describeRateLimit(serverLimit)}`
+  );
+}
+
+export const settingsSchema: z.ZodType<AppSettings> = z.object({
+  backend: z
+    .object({ transport: z.enum(['server', 'http', 'stdio']), url: z.string().trim() })
+    .refine(
+      backend => backend.transport !== 'http' || /^https?:\/\/[^\s/]+/.test(backend.url),
+      { message: 'Backend URL must start with http:// or https://', path: ['url'] }
+    ),
+  engine: z.enum(['auto', 'mcp', 'heuristic']),
+  stageOrder: z
+    .array(z.int())
+    .refine(
+      order =>
+        order.length === ANALYSIS_STAGES.length &&
+        ANALYSIS_STAGES.every(stage => order.includes(stage.prompt)),
+      `Stage order must list each prompt ${ANALYSIS_STAGES.map(stage => stage.prompt).join(', ')} once`
+    ),
+  riskThresholds: riskThresholdsSchema,
+  qualificationModel: qualificationModelSchema,
+  rateLimits: z.object({
+    analysis: serverCappedSchema(DEFAULT_SETTINGS.rateLimits.analysis, 'analysis requests'),
+    api: serverCappedSchema(DEFAULT_SETTINGS.rateLimits.api, 'CRM sync requests')
+  }),
+  retentionDays: z.int().min(0).max(3650),
+  crmMapping: crmMappingSchema
+});
+
+export type SettingsValidation = { valid: true; settings: AppSettings } | { valid: false; errors: string[] };
+
+export function validateSettings(raw: unknown): SettingsValidation {
+  const parsed = settingsSchema.safeParse(raw);
+  if (parsed.success) return { valid: true, settings: parsed.data };
+  return {
+    valid: false,
+    errors: parsed.error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+  };
+}
+
+const EXPORT_FORMAT = 'goldira-settings';
+const EXPORT_VERSION = 1;
+
+export function exportSettings(settings: AppSettings): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), settings }, null, 2);
+}
+
+/**
+ * Parse an exported settings file. Settings missing from older exports are
+ * filled from the defaults before validation.
+ */
+export function importSettings(json: string): SettingsValidation {
+  let file: unknown;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    return { valid: false, errors: ['Settings file is not valid JSON'] };
+  }
+
+  const envelope = z.object({ format: z.literal(EXPORT_FORMAT), version: z.number(), settings: z.record(z.string(), z.unknown()) });
+  const parsed = envelope.safeParse(file);
+  if (!parsed.success) {
+    return { valid: false, errors: ['Not a settings export from this app'] };
+  }
+  if (parsed.data.version > EXPORT_VERSION) {
+    return { valid: false, errors: [`Settings version ${parsed.data.version} is newer than this app supports`] };
+  }
+  return validateSettings({ ...DEFAULT_SETTINGS, ...parsed.data.settings });
+}
+
+/**
+ * The backend override sent with analysis requests, if any
+ */
+export function backendSelection({ backend }: AppSettings): McpBackendSelection | undefined {
+  if (backend.transport === 'server') return undefined;
+  return backend.transport === 'http' ? { transport: 'http', url: backend.url } : { transport: 'stdio' };
+}
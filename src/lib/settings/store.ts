@@ -0,0 +1,59 @@
+/**
+ * Settings persistence
+ *
+ * Each user profile keeps its own settings in localStorage. There are no
+ * accounts, so a profile is just a name chosen in the Settings panel; the
+ * active one is remembered per browser. Settings hold no secrets, so they are
+ * stored as plain JSON rather than in secureStorage.
+ */
+
+import { DEFAULT_SETTINGS, validateSettings, type AppSettings } from './settings';
+
+export const DEFAULT_SETTINGS_USER = 'default';
+
+const ACTIVE_USER_KEY = 'goldira-settings-user';
+const KEY_PREFIX = 'goldira-settings:';
+
+function settingsKey(user: string): string {
+  return `${KEY_PREFIX}${user}`;
+}
+
+export function activeSettingsUser(): string {
+  try {
+    return localStorage.getItem(ACTIVE_USER_KEY) || DEFAULT_SETTINGS_USER;
+  } catch {
+    return DEFAULT_SETTINGS_USER;
+  }
+}
+
+export function setActiveSettingsUser(user: string): void {
+  localStorage.setItem(ACTIVE_USER_KEY, user);
+}
+
+/**
+ * Profiles with saved settings, always including the default one
+ */
+export function listSettingsUsers(): string[] {
+  const users = Object.keys(localStorage)
+    .filter(key => key.startsWith(KEY_PREFIX))
+    .map(key => key.slice(KEY_PREFIX.length));
+  return [...new Set([DEFAULT_SETTINGS_USER, ...users])].sort();
+}
+
+/**
+ * A user's settings; missing or invalid settings fall back to the defaults
+ */
+export function loadSettings(user = activeSettingsUser()): AppSettings {
+  try {
+    const raw = localStorage.getItem(settingsKey(user));
+    if (!raw) return DEFAULT_SETTINGS;
+    const validation = validateSettings(JSON.parse(raw));
+    return validation.valid ? validation.settings : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: AppSettings, user = activeSettingsUser()): void {
+  localStorage.setItem(settingsKey(user), JSON.stringify(settings));
+}
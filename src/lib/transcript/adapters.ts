@@ -0,0 +1,247 @@
+/**
+ * Transcript import adapters
+ *
+ * Detect and convert dialer and call-platform exports (WebVTT, SRT, vendor
+ * JSON) into the normalized labelled-text form read by the parser.
+ */
+
+import { parseTimestamp, parseTranscript, serializeTurns } from './parser';
+import type { TranscriptTurn } from './types';
+
+export type TranscriptAdapterId = 'vtt' | 'srt' | 'json' | 'text';
+
+type ImportedTurn = Pick<TranscriptTurn, 'speaker' | 'text' | 'startMs' | 'endMs'>;
+
+export interface TranscriptAdapter {
+  id: TranscriptAdapterId;
+  label: string;
+  detect(fileName: string, content: string): boolean;
+  toTurns(content: string): ImportedTurn[];
+}
+
+export interface ImportedTranscript {
+  adapter: TranscriptAdapterId;
+  adapterLabel: string;
+  transcript: string;
+  turnCount: number;
+}
+
+export class TranscriptImportError extends Error {
+  constructor(message: string, readonly adapter?: TranscriptAdapterId) {
+    super(message);
+    this.name = 'TranscriptImportError';
+  }
+}
+
+const CUE_TIMING = /^(\S+)\s+-->\s+(\S+)/;
+const INLINE_SPEAKER = /^([A-Za-z][\w.'-]*(?: [\w.'-]+){0,3}):\s+(.*)$/;
+
+function extension(fileName: string): string {
+  return fileName.toLowerCase().split('.').pop() ?? '';
+}
+
+function stripMarkup(text: string): string {
+  return text.replace(/<[^>]+>/g, '').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').trim();
+}
+
+/**
+ * Join consecutive caption cues from the same speaker into a single turn
+ */
+function mergeCues(cues: ImportedTurn[]): ImportedTurn[] {
+  const turns: ImportedTurn[] = [];
+  for (const cue of cues) {
+    const previous = turns[turns.length - 1];
+    if (previous && cue.speaker && previous.speaker === cue.speaker) {
+      previous.text = `${previous.text} ${cue.text}`;
+      previous.endMs = cue.endMs ?? previous.endMs;
+    } else {
+      turns.push({ ...cue });
+    }
+  }
+  return turns;
+}
+
+/**
+ * Parse the cue blocks shared by WebVTT and SRT
+ */
+function parseCues(content: string, readSpeaker: (lines: string[]) => { speaker: string; text: string }): ImportedTurn[] {
+  const cues: ImportedTurn[] = [];
+
+  for (const block of content.replace(/\r/g, '').split(/\n{2,}/)) {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex < 0) continue;
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    const { speaker, text } = readSpeaker(lines.slice(timingIndex + 1));
+    if (!text) continue;
+
+    cues.push({ speaker, text, startMs: parseTimestamp(start), endMs: parseTimestamp(end) });
+  }
+
+  return mergeCues(cues);
+}
+
+function inlineSpeaker(lines: string[]): { speaker: string; text: string } {
+  const text = stripMarkup(lines.join(' '));
+  const match = text.match(INLINE_SPEAKER);
+  return match ? { speaker: match[1], text: match[2] } : { speaker: '', text };
+}
+
+const vttAdapter: TranscriptAdapter = {
+  id: 'vtt',
+  label: 'WebVTT',
+  detect: (fileName, content) => extension(fileName) === 'vtt' || content.trimStart().startsWith('WEBVTT'),
+  toTurns: content =>
+    parseCues(content, lines => {
+      // Voice tags carry the speaker: <v Jane Doe>Hello
+      const voice = lines.join(' ').match(/<v(?:\.[\w.]+)?\s+([^>]+)>/);
+      if (voice) {
+        return { speaker: voice[1].trim(), text: stripMarkup(lines.join(' ')) };
+      }
+      return inlineSpeaker(lines);
+    })
+};
+
+const srtAdapter: TranscriptAdapter = {
+  id: 'srt',
+  label: 'SubRip (SRT)',
+  detect: (fileName, content) =>
+    extension(fileName) === 'srt' || /^\d+\s*\r?\n\d{2}:\d{2}:\d{2},\d{3}\s+-->/.test(content.trimStart()),
+  toTurns: content =>
+    parseCues(content, lines => {
+      // Some dialers bracket the speaker: [Agent] Hello
+      const bracketed = lines.join(' ').match(/^\[([^\]]+)\]\s*(.*)$/);
+      if (bracketed) {
+        return { speaker: bracketed[1].trim(), text: stripMarkup(bracketed[2]) };
+      }
+      return inlineSpeaker(lines);
+    })
+};
+
+const SEGMENT_KEYS = ['segments', 'utterances', 'turns', 'transcript', 'monologues', 'results', 'items'];
+const SPEAKER_KEYS = ['speaker', 'speakerName', 'speaker_name', 'speaker_label', 'speakerLabel', 'participant', 'role', 'channel'];
+const TEXT_KEYS = ['text', 'transcript', 'content', 'utterance', 'sentence'];
+const START_KEYS = ['start', 'startTime', 'start_time', 'begin', 'offset', 'startMs', 'start_ms'];
+const END_KEYS = ['end', 'endTime', 'end_time', 'stop', 'endMs', 'end_ms'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pick(record: Record<string, unknown>, keys: string[]): [string, unknown] | undefined {
+  const key = keys.find(candidate => record[candidate] !== undefined && record[candidate] !== null);
+  return key ? [key, record[key]] : undefined;
+}
+
+function findSegments(data: unknown): Record<string, unknown>[] {
+  if (Array.isArray(data)) {
+    return data.filter(isRecord);
+  }
+  if (isRecord(data)) {
+    for (const key of SEGMENT_KEYS) {
+      const segments = findSegments(data[key]);
+      if (segments.length > 0) return segments;
+    }
+  }
+  return [];
+}
+
+/**
+ * Whether a platform's plain start/end numbers are milliseconds. Decided by
+ * the known format rather than the values, since a short clip in milliseconds
+ * looks just like a long call in seconds.
+ */
+function usesMilliseconds(data: unknown): boolean {
+  // AssemblyAI: { audio_url, utterances: [{ speaker, text, start, end }] }
+  return isRecord(data) && data.audio_url !== undefined && Array.isArray(data.utterances);
+}
+
+/**
+ * Read a vendor time value. Strings are clock times; numbers are seconds
+ * unless the field name says milliseconds or the file's format uses them.
+ */
+function readTime(entry: [string, unknown] | undefined, millis: boolean): number | undefined {
+  if (!entry) return undefined;
+  const [key, value] = entry;
+  if (typeof value === 'string') {
+    return /^\d+(\.\d+)?$/.test(value) ? readTime([key, Number(value)], millis) : parseTimestamp(value);
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return /ms$/i.test(key) || millis ? Math.round(value) : Math.round(value * 1000);
+}
+
+function speakerName(value: unknown): string {
+  if (typeof value === 'number') return `Speaker ${value}`;
+  if (isRecord(value)) return speakerName(pick(value, ['name', 'label', 'id'])?.[1]);
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+const jsonAdapter: TranscriptAdapter = {
+  id: 'json',
+  label: 'Call platform JSON',
+  detect: (fileName, content) => {
+    if (extension(fileName) === 'json') return true;
+    // Labelled text can also start with "[", so sniff by actually parsing
+    if (!/^\s*[[{]/.test(content)) return false;
+    try {
+      JSON.parse(content);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  toTurns: content => {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new TranscriptImportError('File is not valid JSON', 'json');
+    }
+
+    const millis = usesMilliseconds(data);
+
+    return mergeCues(
+      findSegments(data)
+        .map(segment => ({
+          speaker: speakerName(pick(segment, SPEAKER_KEYS)?.[1]),
+          text: String(pick(segment, TEXT_KEYS)?.[1] ?? '').trim(),
+          startMs: readTime(pick(segment, START_KEYS), millis),
+          endMs: readTime(pick(segment, END_KEYS), millis)
+        }))
+        .filter(turn => turn.text)
+    );
+  }
+};
+
+export const TRANSCRIPT_ADAPTERS: readonly TranscriptAdapter[] = [vttAdapter, srtAdapter, jsonAdapter];
+
+/**
+ * Convert an uploaded file's text into the normalized transcript, reporting
+ * which adapter was used. Plain text passes through unchanged.
+ */
+export function importTranscript(fileName: string, content: string): ImportedTranscript {
+  const adapter = TRANSCRIPT_ADAPTERS.find(candidate => candidate.detect(fileName, content));
+  if (!adapter) {
+    return { adapter: 'text', adapterLabel: 'Plain text', transcript: content, turnCount: 0 };
+  }
+
+  const turns = adapter.toTurns(content);
+  if (turns.length === 0) {
+    throw new TranscriptImportError(`No transcript segments found in ${adapter.label} file`, adapter.id);
+  }
+
+  // The text must read back as the same turns, or speakers would be lost on analysis
+  const transcript = serializeTurns(turns);
+  const parsed = parseTranscript(transcript).turns;
+  if (parsed.length !== turns.length || parsed.some((turn, i) => turn.speaker !== turns[i].speaker)) {
+    throw new TranscriptImportError(`${adapter.label} file could not be converted without losing speaker labels`, adapter.id);
+  }
+
+  return {
+    adapter: adapter.id,
+    adapterLabel: adapter.label,
+    transcript,
+    turnCount: turns.length
+  };
+}
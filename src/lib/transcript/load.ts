@@ -0,0 +1,34 @@
+/**
+ * Load an uploaded file as transcript text
+ *
+ * PDF and Word files go through the extraction worker; caption and JSON
+ * exports through the import adapters; anything else is read as text.
+ */
+
+import { extractDocumentText, getDocumentFormat } from '@/lib/documents/client';
+import { importTranscript } from './adapters';
+
+export interface LoadedTranscript {
+  transcript: string;
+  // How the file was converted, or null for plain text
+  note: string | null;
+}
+
+export async function loadTranscriptFile(file: File, signal?: AbortSignal): Promise<LoadedTranscript> {
+  const format = getDocumentFormat(file);
+  if (format) {
+    const extracted = await extractDocumentText(file, format, signal);
+    return {
+      transcript: extracted.text,
+      note: extracted.pageCount
+        ? `Extracted from PDF (${extracted.pageCount} pages)`
+        : `Extracted from Word document (${extracted.paragraphCount} paragraphs)`
+    };
+  }
+
+  const imported = importTranscript(file.name, await file.text());
+  return {
+    transcript: imported.transcript,
+    note: imported.adapter === 'text' ? null : `Imported via ${imported.adapterLabel} (${imported.turnCount} turns)`
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Turn-level conversation metrics derived from parsed transcripts
+ */
+
+import type { SpeakerRole, TranscriptTurn } from './types';
+
+export interface TalkMetrics {
+  wordsByRole: Record<SpeakerRole, number>;
+  totalWords: number;
+  // Share of words spoken by the rep, 0-100
+  repTalkRatio: number;
+  repQuestions: number;
+  prospectQuestions: number;
+  // Rep questions per 100 words spoken by the rep
+  repQuestionRate: number;
+  // Turns cut off mid-sentence by a different speaker
+  interruptions: number;
+}
+
+// A turn ending in a dash or ellipsis was cut off
+export const CUT_OFF = /(--|[-–—]|\.\.\.|…)\s*$/;
+
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+export function countQuestions(text: string): number {
+  return (text.match(/\?/g) || []).length;
+}
+
+export function textForRole(turns: TranscriptTurn[], role: SpeakerRole): string {
+  return turns.filter(turn => turn.role === role).map(turn => turn.text).join(' ');
+}
+
+export function computeTalkMetrics(turns: TranscriptTurn[]): TalkMetrics {
+  const wordsByRole: Record<SpeakerRole, number> = { rep: 0, prospect: 0, other: 0, unknown: 0 };
+  let repQuestions = 0;
+  let prospectQuestions = 0;
+  let interruptions = 0;
+
+  turns.forEach((turn, i) => {
+    wordsByRole[turn.role] += countWords(turn.text);
+    if (turn.role === 'rep') repQuestions += countQuestions(turn.text);
+    if (turn.role === 'prospect') prospectQuestions += countQuestions(turn.text);
+
+    const next = turns[i + 1];
+    if (next && next.speaker !== turn.speaker && CUT_OFF.test(turn.text)) {
+      interruptions++;
+    }
+  });
+
+  const totalWords = Object.values(wordsByRole).reduce((sum, count) => sum + count, 0);
+  return {
+    wordsByRole,
+    totalWords,
+    repTalkRatio: totalWords ? Math.round((wordsByRole.rep / totalWords) * 100) : 0,
+    repQuestions,
+    prospectQuestions,
+    repQuestionRate: wordsByRole.rep ? Math.round((repQuestions / wordsByRole.rep) * 1000) / 10 : 0,
+    interruptions
+  };
+}
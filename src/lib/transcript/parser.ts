@@ -0,0 +1,257 @@
+/**
+ * Speaker-aware transcript parser
+ *
+ * Recognizes common speaker-label formats ("Rep:", "Agent 1:",
+ * "[00:03:12] Prospect:", "Prospect (00:03):") and produces ordered turns
+ * with a speaker role and optional timestamps. Lines that only look like a
+ * label, e.g. "The fees: ...", are continuation text. A quoted label such as
+ * "Bob Smith (Prospect)": is always read as written, so imported names of
+ * any shape survive; "": starts a turn without a speaker.
+ */
+
+import type { CallMetadata } from '@/lib/analysis/types';
+import type { ParsedTranscript, SpeakerMap, SpeakerRole, TranscriptTurn } from './types';
+
+const TIMESTAMP = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d{1,3})?`;
+// "[00:03:12]", "(03:12)", "00:03:12 -" or a range "[00:03:12 - 00:03:15]"
+const LEADING_TIME = new RegExp(
+  String.raw`^[\[(]?(${TIMESTAMP})(?:\s*(?:-->|-|–)\s*(${TIMESTAMP}))?[\])]?\s*[-–]?\s*`
+);
+// "Rep:", "Agent 1:", "Prospect (00:03):" - at most four words before the colon
+const SPEAKER_LABEL = new RegExp(
+  String.raw`^([A-Za-z][\w.'-]*(?: [\w.'-]+){0,3}?)\s*(?:[\[(](${TIMESTAMP})[\])])?\s*:\s*(.*)$`
+);
+
+const REP_LABEL = /\b(rep|representative|agent|advisor|specialist|sales(person|man|woman)?|broker|consultant|account executive|ae)\b/i;
+const PROSPECT_LABEL = /\b(prospect|customer|client|caller|lead|buyer|investor|consumer)\b/i;
+const OTHER_LABEL = /\b(spouse|wife|husband|manager|supervisor|operator|voicemail|ivr)\b/i;
+
+// "Bob Smith (Prospect)": - a JSON string, so quotes and backslashes are escaped
+const QUOTED_LABEL = /^("(?:[^"\\]|\\.)*")\s*:\s*(.*)$/;
+
+// Words that commonly end a sentence with a colon but are not speakers
+const NOT_A_LABEL = /^(note|notes|summary|re|subject|example|question|answer|date|time|duration|call)$/i;
+// "Speaker 1", "Spk 2", "Participant A" from diarized exports
+const GENERIC_LABEL = /^(speaker|spk|participant|person|voice|guest)[ _-]?\w{1,3}$/i;
+// A capitalised name such as "Bob", "Mary-Jane O'Neil" or "Jean de la Cruz"
+const NAME_LABEL = /^[A-Z][\w.'-]*(?: (?:[A-Z0-9][\w.'-]*|de|da|del|der|di|du|la|le|van|von|bin|al))*$/;
+
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const clock = [Math.floor(totalSeconds / 3600), Math.floor((totalSeconds % 3600) / 60), totalSeconds % 60]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':');
+  const millis = Math.round(ms % 1000);
+  return millis ? `${clock}.${String(millis).padStart(3, '0')}` : clock;
+}
+
+export function parseTimestamp(value: string): number {
+  const [clock, fraction = '0'] = value.split(/[.,]/);
+  const parts = clock.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds * 1000 + Number(fraction.padEnd(3, '0').slice(0, 3));
+}
+
+function firstName(name: string): string {
+  return name.trim().split(/\s+/)[0]?.toLowerCase() ?? '';
+}
+
+/**
+ * Guess a role from a speaker label and the call metadata
+ */
+export function inferSpeakerRole(label: string, metadata?: Pick<CallMetadata, 'salesRep' | 'prospectName'>): SpeakerRole {
+  const lower = label.toLowerCase();
+  const repName = metadata ? firstName(metadata.salesRep) : '';
+  const prospectName = metadata ? firstName(metadata.prospectName) : '';
+
+  if (repName && lower.startsWith(repName)) return 'rep';
+  if (prospectName && lower.startsWith(prospectName)) return 'prospect';
+  if (REP_LABEL.test(label)) return 'rep';
+  if (PROSPECT_LABEL.test(label)) return 'prospect';
+  if (OTHER_LABEL.test(label)) return 'other';
+  return 'unknown';
+}
+
+/**
+ * Fill in roles for a two-party call where only one side was recognized
+ */
+function completeSpeakerMap(speakers: string[], map: SpeakerMap): SpeakerMap {
+  const unknown = speakers.filter(speaker => map[speaker] === 'unknown');
+  const roles = new Set(Object.values(map));
+
+  if (unknown.length === 1) {
+    if (roles.has('rep') && !roles.has('prospect')) {
+      return { ...map, [unknown[0]]: 'prospect' };
+    }
+    if (roles.has('prospect') && !roles.has('rep')) {
+      return { ...map, [unknown[0]]: 'rep' };
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Whether a label is a speaker on its own: it starts with a role cue, is a
+ * diarization label, starts with a name from the metadata or was mapped by
+ * hand. "My advisor said:" and "The fees:" are not.
+ */
+function isKnownLabel(label: string, metadata: ParseOptions['metadata'], speakerMap: SpeakerMap): boolean {
+  const names = metadata ? [firstName(metadata.salesRep), firstName(metadata.prospectName)].filter(Boolean) : [];
+  return (
+    Object.hasOwn(speakerMap, label) ||
+    GENERIC_LABEL.test(label) ||
+    [REP_LABEL, PROSPECT_LABEL, OTHER_LABEL].some(pattern => pattern.exec(label)?.index === 0) ||
+    names.includes(firstName(label))
+  );
+}
+
+interface LabelledLine {
+  text: string;
+  time: RegExpMatchArray | null;
+  // Text after the leading timestamp
+  rest: string;
+  label: string | null;
+  // Quoted labels are speakers whatever they contain
+  quoted: boolean;
+  // Timestamp after the label, e.g. "Prospect (00:03):"
+  labelTime?: string;
+  // Text after the label
+  body?: string;
+}
+
+function readQuotedLabel(value: string): string | null {
+  try {
+    return JSON.parse(value) as string;
+  } catch {
+    return null;
+  }
+}
+
+function readLine(trimmed: string): LabelledLine {
+  const time = trimmed.match(LEADING_TIME);
+  const rest = time ? trimmed.slice(time[0].length) : trimmed;
+
+  const quoted = rest.match(QUOTED_LABEL);
+  const quotedLabel = quoted ? readQuotedLabel(quoted[1]) : null;
+  if (quoted && quotedLabel !== null) {
+    return { text: trimmed, time, rest, label: quotedLabel, quoted: true, body: quoted[2] };
+  }
+
+  const match = rest.match(SPEAKER_LABEL);
+  const label = match && !NOT_A_LABEL.test(match[1].trim()) ? match[1].trim() : null;
+  return { text: trimmed, time, rest, label, quoted: false, labelTime: match?.[2], body: match?.[3] };
+}
+
+export interface ParseOptions {
+  metadata?: Pick<CallMetadata, 'salesRep' | 'prospectName'>;
+  // Manual assignments override inferred roles
+  speakerMap?: SpeakerMap;
+}
+
+export function parseTranscript(transcript: string, { metadata, speakerMap = {} }: ParseOptions = {}): ParsedTranscript {
+  const turns: Omit<TranscriptTurn, 'role'>[] = [];
+  const speakers: string[] = [];
+  const lines = transcript.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(readLine);
+
+  // A capitalised name is only a speaker once it labels more than one line;
+  // "So here's the thing:" or a one-off "Important:" stays part of the turn
+  const nameCounts = new Map<string, number>();
+  for (const { label, quoted } of lines) {
+    if (label && !quoted && NAME_LABEL.test(label)) nameCounts.set(label, (nameCounts.get(label) ?? 0) + 1);
+  }
+  const isSpeaker = (label: string) =>
+    isKnownLabel(label, metadata, speakerMap) ||
+    (NAME_LABEL.test(label) && ((nameCounts.get(label) ?? 0) > 1 || turns.length === 0));
+
+  for (const line of lines) {
+    const { text: trimmed, time, rest } = line;
+    const label = line.label !== null && (line.quoted || isSpeaker(line.label)) ? line.label : null;
+    const start = time?.[1] ?? (label !== null ? line.labelTime : undefined);
+
+    if (label !== null) {
+      if (label && !speakers.includes(label)) {
+        speakers.push(label);
+      }
+      turns.push({
+        index: turns.length,
+        speaker: label,
+        text: (line.body ?? '').trim(),
+        startMs: start ? parseTimestamp(start) : undefined,
+        endMs: time?.[2] ? parseTimestamp(time[2]) : undefined
+      });
+    } else if (time) {
+      // Timestamped line without a speaker label, e.g. imported captions
+      turns.push({
+        index: turns.length,
+        speaker: '',
+        text: rest,
+        startMs: parseTimestamp(time[1]),
+        endMs: time[2] ? parseTimestamp(time[2]) : undefined
+      });
+    } else if (turns.length > 0) {
+      // Continuation of the previous speaker's turn
+      const previous = turns[turns.length - 1];
+      previous.text = previous.text ? `${previous.text} ${trimmed}` : trimmed;
+    } else {
+      turns.push({ index: 0, speaker: '', text: trimmed });
+    }
+  }
+
+  // Without an explicit end, a timestamped turn ends where the next one starts
+  for (let i = 0; i < turns.length - 1; i++) {
+    if (turns[i].endMs === undefined && turns[i].startMs !== undefined && turns[i + 1].startMs !== undefined) {
+      turns[i].endMs = turns[i + 1].startMs;
+    }
+  }
+
+  const inferred = Object.fromEntries(speakers.map(speaker => [speaker, inferSpeakerRole(speaker, metadata)]));
+  const resolved: SpeakerMap = { ...completeSpeakerMap(speakers, inferred), ...speakerMap };
+
+  return {
+    turns: turns.map(turn => ({ ...turn, role: turn.speaker ? resolved[turn.speaker] ?? 'unknown' : 'unknown' })),
+    speakers,
+    speakerMap: resolved,
+    ambiguous: speakers.some(speaker => resolved[speaker] === 'unknown')
+  };
+}
+
+/**
+ * Label for a serialized turn: plain when the parser reads it back as the same
+ * speaker on its own, quoted otherwise
+ */
+function serializeLabel(speaker: string, text: string, timed: boolean, first: boolean, counts: Map<string, number>): string {
+  if (!speaker) {
+    // Keep an unlabelled turn from joining the previous one or gaining a speaker
+    const line = readLine(text);
+    return (!timed && !first) || line.label !== null || line.time ? '"": ' : '';
+  }
+
+  const line = readLine(`${speaker}: ${text}`);
+  const readsBack =
+    !line.quoted &&
+    !line.time &&
+    !line.labelTime &&
+    line.label === speaker &&
+    (isKnownLabel(speaker, undefined, {}) || (NAME_LABEL.test(speaker) && (counts.get(speaker) ?? 0) > 1));
+  return readsBack ? `${speaker}: ` : `${JSON.stringify(speaker)}: `;
+}
+
+/**
+ * Render turns back to labelled text the parser reads losslessly,
+ * e.g. `[00:03:12 - 00:03:15] Rep: ...` or `"Bob Smith (Prospect)": ...`
+ */
+export function serializeTurns(turns: Pick<TranscriptTurn, 'speaker' | 'text' | 'startMs' | 'endMs'>[]): string {
+  const counts = new Map<string, number>();
+  for (const { speaker } of turns) counts.set(speaker, (counts.get(speaker) ?? 0) + 1);
+
+  return turns
+    .map((turn, index) => {
+      const time = turn.startMs !== undefined
+        ? `[${formatTimestamp(turn.startMs)}${turn.endMs !== undefined ? ` - ${formatTimestamp(turn.endMs)}` : ''}] `
+        : '';
+      const text = turn.text.replace(/\s+/g, ' ').trim();
+      return `${time}${serializeLabel(turn.speaker, text, !!time, index === 0, counts)}${text}`;
+    })
+    .join('\n');
+}
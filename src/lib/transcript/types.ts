@@ -0,0 +1,27 @@
+/**
+ * Normalized transcript model shared by the parser, import adapters and
+ * analysis engines
+ */
+
+export type SpeakerRole = 'rep' | 'prospect' | 'other' | 'unknown';
+
+// Raw speaker label -> role, e.g. { 'Speaker 1': 'rep' }
+export type SpeakerMap = Record<string, SpeakerRole>;
+
+export interface TranscriptTurn {
+  index: number;
+  speaker: string;
+  role: SpeakerRole;
+  text: string;
+  startMs?: number;
+  endMs?: number;
+}
+
+export interface ParsedTranscript {
+  turns: TranscriptTurn[];
+  // Distinct speaker labels in order of first appearance
+  speakers: string[];
+  speakerMap: SpeakerMap;
+  // True when at least one labelled speaker could not be assigned a role
+  ambiguous: boolean;
+}
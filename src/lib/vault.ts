@@ -0,0 +1,240 @@
+/**
+ * Encryption key management for data at rest
+ *
+ * Holds the AES-GCM key used by secureStorage and the analysis history in
+ * memory only. The key is either derived from a user passphrase (PBKDF2) or a
+ * random non-extractable session key that is lost when the tab closes or the
+ * vault is locked. Nothing is sealed while the vault is locked.
+ */
+
+const META_KEY = 'goldira.vault';
+const PBKDF2_ITERATIONS = 310_000;
+const CHECK_PLAINTEXT = 'goldira-vault-check';
+
+export type VaultMode = 'session' | 'passphrase';
+
+export interface VaultStatus {
+  locked: boolean;
+  mode: VaultMode | null;
+  // A passphrase has been set, so values survive reloads but need unlocking
+  hasPassphrase: boolean;
+}
+
+export interface SealedValue {
+  iv: string;
+  data: string;
+}
+
+/**
+ * A store holding values sealed with the vault key. `unseal` decrypts every
+ * value it can read and returns a function that writes them back, sealed with
+ * whatever key is current by then. Values it cannot read are left alone until
+ * `purge` deletes them, returning how many there were.
+ */
+export interface SealedStore {
+  unseal(): Promise<() => Promise<void>>;
+  purge(): Promise<number>;
+}
+
+interface VaultMeta {
+  salt: string;
+  iterations: number;
+  // Known plaintext sealed with the passphrase key, used to verify unlocks
+  check: SealedValue;
+}
+
+export class VaultLockedError extends Error {
+  constructor(message = 'Secure storage is locked. Unlock it with your passphrase.') {
+    super(message);
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class VaultPassphraseError extends Error {
+  constructor(message = 'Incorrect passphrase') {
+    super(message);
+    this.name = 'VaultPassphraseError';
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function generateSessionKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+async function seal(key: CryptoKey, value: unknown): Promise<SealedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function open<T>(key: CryptoKey, sealed: SealedValue): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+function readMeta(): VaultMeta | null {
+  try {
+    const raw = localStorage.getItem(META_KEY);
+    return raw ? (JSON.parse(raw) as VaultMeta) : null;
+  } catch {
+    return null;
+  }
+}
+
+class StorageVault {
+  private key: CryptoKey | null = null;
+  private mode: VaultMode | null = null;
+  private pendingKey: Promise<CryptoKey> | null = null;
+  private stores = new Set<SealedStore>();
+  private snapshot: VaultStatus = { locked: true, mode: null, hasPassphrase: false };
+  private listeners = new Set<() => void>();
+
+  status(): VaultStatus {
+    const hasPassphrase = typeof localStorage !== 'undefined' && readMeta() !== null;
+    const locked = this.key === null;
+    if (this.snapshot.locked !== locked || this.snapshot.mode !== this.mode || this.snapshot.hasPassphrase !== hasPassphrase) {
+      this.snapshot = { locked, mode: this.mode, hasPassphrase };
+    }
+    return this.snapshot;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  registerStore(store: SealedStore): void {
+    this.stores.add(store);
+  }
+
+  private currentKey(): CryptoKey {
+    if (this.key) return this.key;
+    throw readMeta()
+      ? new VaultLockedError()
+      : new VaultLockedError('Secure storage is locked. Start a new session to store data again.');
+  }
+
+  async encrypt(value: unknown): Promise<SealedValue> {
+    return seal(this.currentKey(), value);
+  }
+
+  async decrypt<T>(sealed: SealedValue): Promise<T> {
+    if (!this.key) throw new VaultLockedError();
+    return open<T>(this.key, sealed);
+  }
+
+  /**
+   * Create a session key when no passphrase is set. Values sealed with an
+   * earlier session key stay unreadable.
+   */
+  async startSession(): Promise<void> {
+    if (this.key) return;
+    if (readMeta()) throw new VaultLockedError();
+
+    // Concurrent callers must share one session key
+    this.pendingKey ??= generateSessionKey().then(key => {
+      this.key = key;
+      this.mode = 'session';
+      this.pendingKey = null;
+      this.notify();
+      return key;
+    });
+    await this.pendingKey;
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    const meta = readMeta();
+    if (!meta) throw new Error('No passphrase has been set');
+
+    const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+    try {
+      if ((await open<string>(key, meta.check)) !== CHECK_PLAINTEXT) throw new VaultPassphraseError();
+    } catch {
+      throw new VaultPassphraseError();
+    }
+
+    this.key = key;
+    this.mode = 'passphrase';
+    this.notify();
+  }
+
+  /**
+   * Re-encrypt every registered store under a new key, derived from
+   * `passphrase` or a fresh session key when omitted
+   */
+  async rotate(passphrase?: string): Promise<void> {
+    // A locked passphrase vault must be unlocked first, or its values would be lost
+    if (!this.key && readMeta()) throw new VaultLockedError();
+
+    const reseal = await Promise.all([...this.stores].map(store => store.unseal()));
+    await this.replaceKey(passphrase);
+    for (const write of reseal) await write();
+  }
+
+  private async replaceKey(passphrase?: string): Promise<void> {
+    if (passphrase) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+      const meta: VaultMeta = { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await seal(key, CHECK_PLAINTEXT) };
+      localStorage.setItem(META_KEY, JSON.stringify(meta));
+      this.key = key;
+      this.mode = 'passphrase';
+    } else {
+      localStorage.removeItem(META_KEY);
+      this.key = await generateSessionKey();
+      this.mode = 'session';
+    }
+    this.notify();
+  }
+
+  /**
+   * Delete the values in every registered store that the current key cannot
+   * open, such as those sealed in earlier sessions. Returns how many there were.
+   */
+  async purgeUnreadable(): Promise<number> {
+    // While locked nothing can be opened, so everything would be deleted
+    this.currentKey();
+    let removed = 0;
+    for (const store of this.stores) removed += await store.purge();
+    return removed;
+  }
+
+  /**
+   * Forget the in-memory key. Passphrase-protected values can be unlocked
+   * again; values sealed with a session key become unreadable.
+   */
+  lock(): void {
+    this.key = null;
+    this.mode = null;
+    this.notify();
+  }
+}
+
+export const storageVault = new StorageVault();